@@ -0,0 +1,191 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Group-by Aggregation
+ */
+
+import { AggregateSpec, AggregationConfig, TableColumn, TableData } from './types';
+import { ConfigurationError } from './errors';
+import { getBsonType, bsonToScalar, normalizeBsonValues } from './bson';
+import { normalizeRowValues } from './transformers';
+import { ColumnTracker } from './columns';
+
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max', 'countDistinct', 'first', 'last', 'concat'] as const;
+
+const FIXED_TYPES: Partial<Record<AggregateSpec['op'], string>> = {
+  count: 'integer',
+  countDistinct: 'integer',
+  avg: 'float',
+  concat: 'string'
+};
+
+interface AggregateState {
+  count: number;
+  sum: number;
+  value: any;
+  distinct: Set<string>;
+  parts: string[];
+}
+
+interface GroupState {
+  keys: any[];
+  states: AggregateState[];
+}
+
+export function validateAggregation(config: AggregationConfig | undefined): void {
+  if (!config) throw new ConfigurationError('aggregation is required when using aggregate');
+  if (!Array.isArray(config.groupBy)) throw new ConfigurationError('aggregation.groupBy must be an array');
+  if (!Array.isArray(config.aggregates) || config.aggregates.length === 0) {
+    throw new ConfigurationError('aggregation.aggregates must be a non-empty array');
+  }
+
+  const names = new Set(config.groupBy);
+  config.aggregates.forEach((spec, i) => {
+    if (!spec?.name) throw new ConfigurationError(`aggregation.aggregates[${i}] must have a name`);
+    if (!AGGREGATE_FUNCTIONS.includes(spec.op)) {
+      throw new ConfigurationError(`aggregation.aggregates[${i}]: unknown aggregate function "${spec.op}"`);
+    }
+    if (spec.op !== 'count' && !spec.field) {
+      throw new ConfigurationError(`aggregation.aggregates[${i}]: ${spec.op} requires a field`);
+    }
+    if (names.has(spec.name)) throw new ConfigurationError(`duplicate aggregation column: ${spec.name}`);
+    names.add(spec.name);
+  });
+}
+
+/**
+ * Accumulates rows into groups one at a time, so memory grows with the number
+ * of groups rather than the number of rows. Values equal to `nullValue` count
+ * as null.
+ */
+export class GroupAggregator {
+  private groups = new Map<string, GroupState>();
+
+  constructor(private config: AggregationConfig, private nullValue?: string) {
+    validateAggregation(config);
+  }
+
+  add(row: Record<string, any>): void {
+    const keys = this.config.groupBy.map(column => this.read(row, column));
+    const groupKey = JSON.stringify(normalizeBsonValues(keys));
+    let group = this.groups.get(groupKey);
+    if (!group) {
+      group = {
+        keys,
+        states: this.config.aggregates.map(() => ({ count: 0, sum: 0, value: undefined, distinct: new Set<string>(), parts: [] }))
+      };
+      this.groups.set(groupKey, group);
+    }
+    this.config.aggregates.forEach((spec, i) => accumulate(group!.states[i], spec, spec.field ? this.read(row, spec.field) : undefined));
+  }
+
+  get groupCount(): number { return this.groups.size; }
+
+  /** Returns one row per group, in order of first appearance, plus typed columns. */
+  getResult(): { rows: Record<string, any>[]; columns: TableColumn[] } {
+    const tracker = new ColumnTracker();
+    const rows: Record<string, any>[] = [];
+    for (const group of this.groups.values()) {
+      const row: Record<string, any> = {};
+      this.config.groupBy.forEach((column, i) => { row[column] = group.keys[i]; });
+      this.config.aggregates.forEach((spec, i) => { row[spec.name] = finish(group.states[i], spec); });
+      tracker.observe(row);
+      rows.push(normalizeRowValues(row));
+    }
+
+    const tracked = new Map(tracker.getColumns().map(column => [column.name, column]));
+    const names = [...this.config.groupBy, ...this.config.aggregates.map(spec => spec.name)];
+    const columns = rows.length === 0 ? [] : names.map(name => {
+      const spec = this.config.aggregates.find(candidate => candidate.name === name);
+      const column = tracked.get(name)!;
+      return { ...column, type: (spec && FIXED_TYPES[spec.op]) ?? column.type };
+    });
+    return { rows, columns };
+  }
+
+  private read(row: Record<string, any>, column: string): any {
+    const value = row[column];
+    if (value === undefined || (this.nullValue !== undefined && value === this.nullValue)) return null;
+    const bsonType = getBsonType(value);
+    if (bsonType === 'decimal' || bsonType === 'long' || bsonType === 'int' || bsonType === 'double') return Number(bsonToScalar(value));
+    if (bsonType && bsonType !== 'date') return bsonToScalar(value);
+    return value;
+  }
+}
+
+/** Groups the rows of an existing table. */
+export function aggregateTable(data: TableData, config: AggregationConfig): TableData {
+  const aggregator = new GroupAggregator(config);
+  for (const row of data.rows) aggregator.add(row);
+  const { rows, columns } = aggregator.getResult();
+  return {
+    columns,
+    rows,
+    metadata: {
+      ...data.metadata,
+      totalRows: rows.length,
+      totalColumns: columns.length,
+      generatedAt: new Date().toISOString(),
+      groupBy: [...config.groupBy],
+      aggregates: config.aggregates.map(spec => ({ ...spec }))
+    }
+  };
+}
+
+function accumulate(state: AggregateState, spec: AggregateSpec, value: any): void {
+  if (spec.op === 'count' && !spec.field) {
+    state.count++;
+    return;
+  }
+  if (value === null || value === undefined) return;
+
+  switch (spec.op) {
+    case 'count':
+      state.count++;
+      break;
+    case 'sum':
+    case 'avg': {
+      const num = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (isNaN(num)) return;
+      state.sum += num;
+      state.count++;
+      break;
+    }
+    case 'min':
+    case 'max':
+      if (state.value === undefined || compareValues(value, state.value) * (spec.op === 'min' ? -1 : 1) > 0) state.value = value;
+      break;
+    case 'countDistinct':
+      state.distinct.add(JSON.stringify(normalizeBsonValues(value)));
+      break;
+    case 'first':
+      if (state.value === undefined) state.value = value;
+      break;
+    case 'last':
+      state.value = value;
+      break;
+    case 'concat': {
+      const text = typeof value === 'object' ? JSON.stringify(normalizeBsonValues(value)) : String(value);
+      if (!spec.distinct || !state.parts.includes(text)) state.parts.push(text);
+      break;
+    }
+  }
+}
+
+function finish(state: AggregateState, spec: AggregateSpec): any {
+  switch (spec.op) {
+    case 'count': return state.count;
+    case 'sum': return state.count > 0 ? state.sum : null;
+    case 'avg': return state.count > 0 ? state.sum / state.count : null;
+    case 'countDistinct': return state.distinct.size;
+    case 'concat': return state.parts.length > 0 ? state.parts.join(spec.separator ?? ', ') : null;
+    default: return state.value === undefined ? null : state.value;
+  }
+}
+
+/** Numbers sort before strings, as in MongoDB's comparison order; dates compare by time. */
+function compareValues(a: any, b: any): number {
+  const rank = (value: any) => (typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : value instanceof Date ? 3 : 2);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (a instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' || typeof a === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return JSON.stringify(a).localeCompare(JSON.stringify(b));
+}
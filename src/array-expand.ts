@@ -0,0 +1,173 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Array Expansion
+ */
+
+import { ArrayExpandStrategy } from './types';
+import { ValidationError } from './errors';
+import { getNestedValue } from './transformers';
+import { isBsonValue } from './bson';
+
+export const ARRAY_INDEX_KEY = '$index';
+
+export interface ArrayPathNode {
+  /** Path of the array relative to its parent element, e.g. `items` for `orders[].items[]`. */
+  path: string;
+  /** Full path of the array without the trailing `[]`, e.g. `orders[].items`. */
+  fullPath: string;
+  children: ArrayPathNode[];
+}
+
+export interface ArrayExpandOptions {
+  strategy?: ArrayExpandStrategy;
+  includeIndex?: boolean;
+}
+
+/**
+ * Parses array paths such as `orders`, `orders[]` and `orders[].items[]` into a tree.
+ * Expanding a nested path implicitly expands all of its parent arrays.
+ */
+export function parseArrayPaths(paths: string[]): ArrayPathNode[] {
+  const roots: ArrayPathNode[] = [];
+
+  for (const rawPath of paths) {
+    const normalized = rawPath.endsWith('[]') ? rawPath.slice(0, -2) : rawPath;
+    const segments = normalized.split('[].');
+    let level = roots;
+    let fullPath = '';
+
+    for (const segment of segments) {
+      fullPath = fullPath ? `${fullPath}[].${segment}` : segment;
+      let node = level.find(candidate => candidate.path === segment);
+      if (!node) {
+        node = { path: segment, fullPath, children: [] };
+        level.push(node);
+      }
+      level = node.children;
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Expands a document into one record per combination of array elements. Keys of
+ * expanded elements are prefixed with their array path, e.g. `orders[].items[].sku`,
+ * and primitive elements are stored under the array path itself, e.g. `tags[]`.
+ */
+export function expandDocumentArrays(doc: Record<string, any>, nodes: ArrayPathNode[], options: ArrayExpandOptions = {}): Record<string, any>[] {
+  return expandLevel(doc, nodes, '', options);
+}
+
+function expandLevel(source: Record<string, any>, nodes: ArrayPathNode[], prefix: string, options: ArrayExpandOptions): Record<string, any>[] {
+  let base: Record<string, any> = source;
+  for (const node of nodes) base = omitPath(base, node.path);
+
+  const prefixedBase: Record<string, any> = {};
+  for (const [key, value] of Object.entries(base)) prefixedBase[prefix + key] = value;
+  if (nodes.length === 0) return [prefixedBase];
+
+  const groups = nodes.map(node => expandArray(source, node, prefix, options));
+  const combinations = options.strategy === 'zip' ? zipGroups(groups) : cartesianGroups(groups);
+  return combinations.map(records => Object.assign({}, prefixedBase, ...records));
+}
+
+function expandArray(source: Record<string, any>, node: ArrayPathNode, prefix: string, options: ArrayExpandOptions): Record<string, any>[][] {
+  const arrayValue = getNestedValue(source, node.path);
+  if (!Array.isArray(arrayValue)) {
+    throw new ValidationError(`Document does not contain array field: ${node.fullPath}`, node.fullPath, arrayValue);
+  }
+
+  const elementPrefix = `${prefix}${node.path}[]`;
+  return arrayValue.map((element, index) => {
+    let records: Record<string, any>[];
+    if (typeof element === 'object' && element !== null && !Array.isArray(element) && !isBsonValue(element)) {
+      records = expandLevel(element, node.children, `${elementPrefix}.`, options);
+    } else if (node.children.length > 0) {
+      throw new ValidationError(`Array element is not an object: ${node.fullPath}[${index}]`, node.fullPath, element);
+    } else {
+      records = [{ [elementPrefix]: element }];
+    }
+    if (options.includeIndex) {
+      for (const record of records) record[`${elementPrefix}.${ARRAY_INDEX_KEY}`] = index;
+    }
+    return records;
+  });
+}
+
+function cartesianGroups(groups: Record<string, any>[][][]): Record<string, any>[][] {
+  let combinations: Record<string, any>[][] = [[]];
+  for (const group of groups) {
+    const records = group.flat();
+    const next: Record<string, any>[][] = [];
+    for (const combination of combinations) {
+      for (const record of records) next.push([...combination, record]);
+    }
+    combinations = next;
+  }
+  return combinations;
+}
+
+function zipGroups(groups: Record<string, any>[][][]): Record<string, any>[][] {
+  const length = Math.max(...groups.map(group => group.length));
+  const combinations: Record<string, any>[][] = [];
+  for (let i = 0; i < length; i++) {
+    combinations.push(...cartesianGroups(groups.map(group => [group[i] ?? [{}]])));
+  }
+  return combinations;
+}
+
+export function omitPath(obj: Record<string, any>, path: string): Record<string, any> {
+  const [head, ...rest] = path.split('.');
+  if (!(head in obj)) return obj;
+  const copy = { ...obj };
+  if (rest.length === 0) {
+    delete copy[head];
+  } else if (copy[head] && typeof copy[head] === 'object' && !Array.isArray(copy[head])) {
+    copy[head] = omitPath(copy[head], rest.join('.'));
+  }
+  return copy;
+}
+
+/**
+ * Rebuilds an expanded record as a document in which every expanded array holds
+ * just the record's element, e.g. `{ 'items[].sku': 'A' }` becomes
+ * `{ items: [{ sku: 'A' }] }`. Used to evaluate filters per element.
+ */
+export function toElementDocument(record: Record<string, any>): Record<string, any> {
+  const doc: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key.endsWith(`[].${ARRAY_INDEX_KEY}`)) continue;
+    const segments = key.split('[]').map(segment => segment.replace(/^\./, ''));
+    let target = doc;
+    segments.forEach((segment, i) => {
+      const last = i === segments.length - 1;
+      if (last) {
+        if (segment !== '') assignPath(target, segment, value);
+        return;
+      }
+      const array = readPath(target, segment);
+      if (segments[i + 1] === '' && i + 1 === segments.length - 1) {
+        assignPath(target, segment, [value]);
+        return;
+      }
+      if (!Array.isArray(array)) assignPath(target, segment, [{}]);
+      target = readPath(target, segment)[0];
+    });
+  }
+  return doc;
+}
+
+function readPath(obj: Record<string, any>, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), obj as any);
+}
+
+function assignPath(obj: Record<string, any>, path: string, value: any): void {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    current[key] = next && typeof next === 'object' && !Array.isArray(next) ? { ...next } : {};
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
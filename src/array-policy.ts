@@ -0,0 +1,82 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Array Policies
+ */
+
+import { ArrayPolicy, ArrayPolicyMode } from './types';
+import { ConfigurationError } from './errors';
+import { isBsonValue, bsonToScalar, normalizeBsonValues } from './bson';
+import { matchesPathGlob } from './redaction';
+
+export const ARRAY_POLICY_MODES: ArrayPolicyMode[] = ['indexed', 'json', 'join', 'first', 'last', 'count', 'sum', 'avg', 'min', 'max'];
+
+const AGGREGATE_MODES: ArrayPolicyMode[] = ['sum', 'avg', 'min', 'max'];
+
+export function validateArrayPolicies(policies: ArrayPolicy[] | undefined): void {
+  if (policies === undefined) return;
+  if (!Array.isArray(policies)) throw new ConfigurationError('arrayPolicies must be an array');
+  policies.forEach((policy, i) => {
+    if (!policy?.path || typeof policy.path !== 'string') throw new ConfigurationError(`arrayPolicies[${i}] must have a path`);
+    if (!ARRAY_POLICY_MODES.includes(policy.mode)) throw new ConfigurationError(`arrayPolicies[${i}]: unknown mode "${policy.mode}"`);
+    if (policy.maxItems !== undefined && (!Number.isInteger(policy.maxItems) || policy.maxItems < 1)) {
+      throw new ConfigurationError(`arrayPolicies[${i}].maxItems must be a positive integer`);
+    }
+  });
+}
+
+/** Policies whose path or glob matches an array path; array markers such as `[0]` are ignored. */
+export function findArrayPolicies(path: string, policies: ArrayPolicy[] = []): ArrayPolicy[] {
+  return policies.filter(policy => matchesPathGlob(policy.path, path));
+}
+
+/** The column a policy writes to, or the prefix for indexed, first and last. */
+export function arrayPolicyColumn(path: string, policy: ArrayPolicy): string {
+  if (policy.column) return policy.column;
+  if (policy.mode === 'count') return `${path}_count`;
+  if (AGGREGATE_MODES.includes(policy.mode)) return `${path}_${policy.mode}${policy.field ? `_${policy.field}` : ''}`;
+  return path;
+}
+
+/** The elements a policy reads: the items themselves, or each item's `field`. */
+export function arrayPolicyValues(items: any[], policy: ArrayPolicy): any[] {
+  const field = policy.field;
+  if (!field) return items;
+  return items.map(item => field.split('.').reduce((value, key) => (isPlainObject(value) ? value[key] : undefined), item) ?? null);
+}
+
+/** Reduces an array to a single cell for the json, join, count and aggregate modes. */
+export function summarizeArray(items: any[], policy: ArrayPolicy, arraySeparator?: string): any {
+  const values = arrayPolicyValues(items, policy);
+  switch (policy.mode) {
+    case 'json':
+      return JSON.stringify(normalizeBsonValues(values));
+    case 'join':
+      return values.filter(value => value !== null && value !== undefined).map(toText).join(policy.separator ?? arraySeparator ?? ', ');
+    case 'count':
+      return policy.field ? values.filter(value => value !== null && value !== undefined).length : values.length;
+    default: {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+      if (policy.mode === 'sum') return numbers.reduce((total, value) => total + value, 0);
+      if (numbers.length === 0) return null;
+      if (policy.mode === 'avg') return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+      return numbers.reduce((best, value) => (policy.mode === 'min' ? Math.min(best, value) : Math.max(best, value)));
+    }
+  }
+}
+
+export function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !isBsonValue(value);
+}
+
+function toText(value: any): string {
+  const scalar = isBsonValue(value) ? bsonToScalar(value) : value;
+  return typeof scalar === 'object' ? JSON.stringify(normalizeBsonValues(scalar)) : String(scalar);
+}
+
+/** Numbers, numeric strings and BSON numbers; anything else is skipped. */
+function toNumber(value: any): number | undefined {
+  const scalar = isBsonValue(value) ? bsonToScalar(value) : value;
+  if (typeof scalar === 'number') return Number.isFinite(scalar) ? scalar : undefined;
+  if (typeof scalar !== 'string' || scalar.trim() === '') return undefined;
+  const num = Number(scalar);
+  return Number.isFinite(num) ? num : undefined;
+}
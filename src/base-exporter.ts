@@ -0,0 +1,29 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Exporter Base
+ */
+
+import { TableData, ExportOptions } from './types';
+import { isBsonValue, bsonToScalar, normalizeBsonValues } from './bson';
+
+export interface Exporter {
+  export(data: TableData): string;
+  exportToFile(data: TableData, filePath: string): void;
+}
+
+export abstract class BaseExporter implements Exporter {
+  protected options: ExportOptions;
+  constructor(options: ExportOptions) { this.options = options; }
+  abstract export(data: TableData): string;
+  exportToFile(data: TableData, filePath: string): void {
+    const content = this.export(data);
+    require('fs').writeFileSync(filePath, content, this.options.encoding || 'utf-8');
+  }
+  protected formatValue(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') return String(value);
+    if (isBsonValue(value)) return this.formatValue(bsonToScalar(value));
+    if (Array.isArray(value) || typeof value === 'object') return JSON.stringify(normalizeBsonValues(value));
+    return String(value);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - BSON / Extended JSON Support
+ *
+ * BSON values are detected by `_bsontype` (as set by the `bson` package and the
+ * MongoDB driver) or by their Extended JSON form, so no live driver is needed.
+ */
+
+export type BsonType = 'objectId' | 'date' | 'decimal' | 'long' | 'int' | 'double' | 'timestamp' | 'binary' | 'uuid' | 'other';
+
+const BSONTYPE_NAMES: Record<string, BsonType> = {
+  ObjectId: 'objectId',
+  ObjectID: 'objectId',
+  Decimal128: 'decimal',
+  Long: 'long',
+  Int32: 'int',
+  Double: 'double',
+  Timestamp: 'timestamp',
+  Binary: 'binary',
+  UUID: 'uuid'
+};
+
+const EJSON_KEYS: Record<string, BsonType> = {
+  $oid: 'objectId',
+  $date: 'date',
+  $numberDecimal: 'decimal',
+  $numberLong: 'long',
+  $numberInt: 'int',
+  $numberDouble: 'double',
+  $timestamp: 'timestamp',
+  $binary: 'binary',
+  $uuid: 'uuid'
+};
+
+export function getBsonType(value: any): BsonType | undefined {
+  if (value === null || typeof value !== 'object') return undefined;
+  if (value instanceof Date) return 'date';
+  if (value instanceof Uint8Array) return 'binary';
+
+  const bsontype = value._bsontype;
+  if (typeof bsontype === 'string') {
+    const type = BSONTYPE_NAMES[bsontype] ?? 'other';
+    return type === 'binary' && value.sub_type === 4 ? 'uuid' : type;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0 || keys.length > 2 || !keys[0].startsWith('$')) return undefined;
+  const type = EJSON_KEYS[keys[0]];
+  if (!type) return undefined;
+  if (keys.length === 2 && !(type === 'binary' && keys[1] === '$type')) return undefined;
+  if (type === 'timestamp' && !isEJSONTimestamp(value.$timestamp)) return undefined;
+  if (type === 'binary' && binarySubType(value) === 4) return 'uuid';
+  return type;
+}
+
+export function isBsonValue(value: any): boolean {
+  return getBsonType(value) !== undefined;
+}
+
+/**
+ * Converts a BSON value to a single scalar: ObjectIds become hex strings, dates and
+ * timestamps ISO strings, Decimal128 an exact decimal string, Longs a number when
+ * safe (otherwise a string) and binary data a base64 string.
+ */
+export function bsonToScalar(value: any): any {
+  const type = getBsonType(value);
+  if (!type) return value;
+  const ejson = !(value instanceof Date) && !(value instanceof Uint8Array) && typeof value._bsontype !== 'string';
+
+  switch (type) {
+    case 'objectId':
+      if (ejson) return String(value.$oid);
+      return typeof value.toHexString === 'function' ? value.toHexString() : String(value);
+    case 'date': {
+      const date = ejson ? parseEJSONDate(value.$date) : value;
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    case 'decimal':
+      return ejson ? String(value.$numberDecimal) : value.toString();
+    case 'long':
+      return toSafeNumber(ejson ? String(value.$numberLong) : value.toString());
+    case 'int':
+      return Number(ejson ? value.$numberInt : value.valueOf());
+    case 'double':
+      return Number(ejson ? value.$numberDouble : value.valueOf());
+    case 'timestamp': {
+      const seconds = ejson ? value.$timestamp.t : (value.t ?? value.getHighBits());
+      return new Date(Number(seconds) * 1000).toISOString();
+    }
+    case 'binary':
+      return Buffer.from(binaryBytes(value)).toString('base64');
+    case 'uuid':
+      if (ejson && value.$uuid) return String(value.$uuid).toLowerCase();
+      return formatUUID(Buffer.from(binaryBytes(value)).toString('hex'));
+    default:
+      return typeof value.toString === 'function' ? value.toString() : JSON.stringify(value);
+  }
+}
+
+/**
+ * Recursively replaces BSON values inside arrays and plain objects with scalars,
+ * so that they serialize cleanly with JSON.stringify.
+ */
+export function normalizeBsonValues(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+  if (isBsonValue(value)) return bsonToScalar(value);
+  if (Array.isArray(value)) return value.map(normalizeBsonValues);
+
+  const result: Record<string, any> = {};
+  for (const [key, nested] of Object.entries(value)) result[key] = normalizeBsonValues(nested);
+  return result;
+}
+
+/**
+ * Recursively replaces driver BSON objects with their Extended JSON form, which
+ * maps to the same values but survives structured cloning (e.g. `postMessage`).
+ * Dates and byte arrays are kept as they are.
+ */
+export function toExtendedJSON(value: any): any {
+  if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return value.map(toExtendedJSON);
+  const type = typeof value._bsontype === 'string' ? getBsonType(value) : undefined;
+  switch (type) {
+    case undefined: {
+      const result: Record<string, any> = {};
+      for (const [key, nested] of Object.entries(value)) result[key] = toExtendedJSON(nested);
+      return result;
+    }
+    case 'objectId': return { $oid: bsonToScalar(value) };
+    case 'decimal': return { $numberDecimal: value.toString() };
+    case 'long': return { $numberLong: value.toString() };
+    case 'int': return { $numberInt: String(value.valueOf()) };
+    case 'double': return { $numberDouble: String(value.valueOf()) };
+    case 'timestamp': return { $timestamp: { t: value.t ?? value.getHighBits(), i: value.i ?? value.getLowBits() } };
+    case 'binary':
+    case 'uuid': {
+      const subType = (value.sub_type ?? 0).toString(16).padStart(2, '0');
+      return { $binary: { base64: Buffer.from(binaryBytes(value)).toString('base64'), subType } };
+    }
+    default: return bsonToScalar(value);
+  }
+}
+
+function parseEJSONDate(value: any): Date {
+  if (value && typeof value === 'object' && '$numberLong' in value) return new Date(Number(value.$numberLong));
+  return new Date(value);
+}
+
+/** `{ $timestamp: { t, i } }` with numeric seconds; anything else is left as a plain object. */
+function isEJSONTimestamp(value: any): boolean {
+  return value !== null && typeof value === 'object' && Number.isFinite(value.t);
+}
+
+function toSafeNumber(digits: string): number | string {
+  const num = Number(digits);
+  return Number.isSafeInteger(num) ? num : digits;
+}
+
+function binarySubType(value: any): number | undefined {
+  if (typeof value.$binary === 'object') return parseInt(value.$binary.subType, 16);
+  if (typeof value.$type === 'string') return parseInt(value.$type, 16);
+  return undefined;
+}
+
+function binaryBytes(value: any): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if ('$binary' in value) {
+    const base64 = typeof value.$binary === 'object' ? value.$binary.base64 : value.$binary;
+    return Buffer.from(String(base64), 'base64');
+  }
+  if (value.buffer instanceof Uint8Array) return value.buffer.subarray(0, value.position ?? value.buffer.length);
+  return Buffer.from(String(value.toString('base64')), 'base64');
+}
+
+function formatUUID(hex: string): string {
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
@@ -0,0 +1,296 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Incremental Export and Checkpoints
+ */
+
+import * as fs from 'fs';
+import { MappingConfig, MongoDBDocument, ExportOptions, TableColumn, TableData, QueryFilter, WatermarkValue } from './types';
+import { ConfigurationError, ValidationError } from './errors';
+import { getBsonType, bsonToScalar, normalizeBsonValues } from './bson';
+import { createMapper, MongoDBToTableMapper } from './mapper';
+import { createExporter } from './exporters';
+
+export type IncrementalFormat = 'csv' | 'sql';
+export type WatermarkType = 'date' | 'objectId' | 'number' | 'string';
+
+export interface IncrementalExportOptions {
+  /** Field that grows with every change, e.g. `updatedAt` or `_id`. Documents must arrive sorted by it. */
+  watermarkField: string;
+  /** JSON file holding the checkpoint between runs. */
+  stateFile: string;
+  /** Export file that every run appends to. */
+  output: string;
+  /** Defaults to csv. */
+  format?: IncrementalFormat;
+  /** Further export options, such as `csv` or `sql` settings. */
+  exportOptions?: Omit<Partial<ExportOptions>, 'format'>;
+  /** Documents mapped between checkpoints. Defaults to 1000. */
+  batchSize?: number;
+}
+
+export interface CheckpointRun {
+  startedAt: string;
+  finishedAt: string;
+  from?: WatermarkValue;
+  to?: WatermarkValue;
+  rowsWritten: number;
+}
+
+export interface CheckpointState {
+  version: 1;
+  watermarkField: string;
+  format: IncrementalFormat;
+  status: 'running' | 'complete';
+  /** Highest watermark whose documents are all in the output. */
+  watermark?: WatermarkValue;
+  watermarkType?: WatermarkType;
+  /** Ids of the documents at `watermark`, so ties are not processed twice. */
+  idsAtWatermark: string[];
+  /** Output size after the last checkpoint; anything beyond it is an unfinished batch. */
+  outputBytes: number;
+  columns?: TableColumn[];
+  /** Watermark the current or last run started from. */
+  runFrom?: WatermarkValue;
+  runStartedAt?: string;
+  runs: CheckpointRun[];
+  updatedAt: string;
+}
+
+export interface IncrementalExportResult {
+  documentsProcessed: number;
+  /** Documents at or below the stored watermark, already in the output. */
+  documentsSkipped: number;
+  rowsWritten: number;
+  /** True when the run continued a run that did not complete. */
+  resumed: boolean;
+  metadata: TableData['metadata'];
+}
+
+interface SeenWatermark {
+  watermark?: WatermarkValue;
+  type?: WatermarkType;
+  ids: string[];
+}
+
+/**
+ * Appends mapped documents to an export file and records a watermark after
+ * every batch, so that the next run only processes newer documents and a run
+ * that crashed continues where its last checkpoint left off.
+ */
+export class IncrementalExporter {
+  private mapper: MongoDBToTableMapper;
+  private format: IncrementalFormat;
+
+  constructor(private config: MappingConfig, private options: IncrementalExportOptions) {
+    if (!options.watermarkField) throw new ConfigurationError('watermarkField is required for incremental export');
+    if (['normalize', 'aggregate'].includes(config.mongoMappingType)) {
+      throw new ConfigurationError(`incremental export does not support ${config.mongoMappingType} mode`);
+    }
+    this.format = options.format ?? 'csv';
+    if (!['csv', 'sql'].includes(this.format)) {
+      throw new ConfigurationError(`incremental export can only append csv or sql, not ${this.format}`);
+    }
+    this.mapper = createMapper(config);
+  }
+
+  /** The stored checkpoint, if any. */
+  getState(): CheckpointState | undefined {
+    if (!fs.existsSync(this.options.stateFile)) return undefined;
+    let state: CheckpointState;
+    try {
+      state = JSON.parse(fs.readFileSync(this.options.stateFile, 'utf-8'));
+    } catch (error) {
+      throw new ConfigurationError(`cannot read checkpoint ${this.options.stateFile}: ${(error as Error).message}`);
+    }
+    if (state.watermarkField !== this.options.watermarkField || state.format !== this.format) {
+      throw new ConfigurationError(`checkpoint ${this.options.stateFile} was written for ${state.watermarkField}/${state.format}, not ${this.options.watermarkField}/${this.format}`);
+    }
+    return state;
+  }
+
+  /**
+   * A query that selects documents at or after the stored watermark, for
+   * `collection.find()` sorted by the watermark field. ObjectId watermarks are
+   * returned as Extended JSON (`{ $oid }`).
+   */
+  getResumeFilter(): QueryFilter {
+    const state = this.getState();
+    if (state?.watermark === undefined) return {};
+    const value = state.watermarkType === 'date' ? new Date(state.watermark)
+      : state.watermarkType === 'objectId' ? { $oid: state.watermark }
+        : state.watermark;
+    return { [this.options.watermarkField]: { $gte: value } };
+  }
+
+  getMapper(): MongoDBToTableMapper { return this.mapper; }
+
+  /** Processes `source`, which must be sorted by the watermark field in ascending order. */
+  async run(source: AsyncIterable<MongoDBDocument> | Iterable<MongoDBDocument>): Promise<IncrementalExportResult> {
+    const previous = this.getState();
+    const resumed = previous?.status === 'running';
+    const startedAt = new Date().toISOString();
+    const state: CheckpointState = previous ?? {
+      version: 1, watermarkField: this.options.watermarkField, format: this.format, status: 'running',
+      idsAtWatermark: [], outputBytes: 0, runs: [], updatedAt: startedAt
+    };
+    if (!resumed) {
+      state.runFrom = state.watermark;
+      state.runStartedAt = startedAt;
+    }
+    state.status = 'running';
+    this.prepareOutput(state);
+
+    const skipAfter = { watermark: state.watermark, ids: new Set(state.idsAtWatermark) };
+    const seen: SeenWatermark = { watermark: state.watermark, type: state.watermarkType, ids: [...state.idsAtWatermark] };
+    let documentsProcessed = 0;
+    let documentsSkipped = 0;
+    let rowsWritten = 0;
+    const field = this.options.watermarkField;
+
+    async function* pending(): AsyncGenerator<MongoDBDocument> {
+      for await (const doc of source) {
+        const { value: watermark, type } = readWatermark(doc, field);
+        seen.type = type;
+        const id = JSON.stringify(normalizeBsonValues(doc._id ?? null));
+        if (skipAfter.watermark !== undefined) {
+          const order = compareWatermarks(watermark, skipAfter.watermark, field);
+          if (order < 0 || (order === 0 && skipAfter.ids.has(id))) {
+            documentsSkipped++;
+            continue;
+          }
+        }
+        const order = seen.watermark === undefined ? 1 : compareWatermarks(watermark, seen.watermark, field);
+        if (order < 0) {
+          throw new ValidationError(`documents must be sorted by ${field} ascending; ${JSON.stringify(watermark)} came after ${JSON.stringify(seen.watermark)}`, field, watermark);
+        }
+        if (order > 0) {
+          seen.watermark = watermark;
+          seen.ids = [];
+        }
+        seen.ids.push(id);
+        documentsProcessed++;
+        yield doc;
+      }
+    }
+
+    for await (const batch of this.mapper.mapStream(pending(), { batchSize: this.options.batchSize, columns: state.columns })) {
+      state.columns = state.columns ?? batch.columns;
+      assertKnownColumns(state.columns, batch.rows);
+      this.append(state, batch.rows);
+      rowsWritten += batch.rows.length;
+      this.checkpoint(state, seen);
+    }
+
+    const finishedAt = new Date().toISOString();
+    this.checkpoint(state, seen);
+    state.status = 'complete';
+    state.runs.push({ startedAt: state.runStartedAt ?? startedAt, finishedAt, from: state.runFrom, to: state.watermark, rowsWritten });
+    this.save(state);
+
+    return {
+      documentsProcessed,
+      documentsSkipped,
+      rowsWritten,
+      resumed,
+      metadata: {
+        totalRows: rowsWritten,
+        totalColumns: state.columns?.length ?? 0,
+        mappingType: this.config.mongoMappingType,
+        sourceCollection: this.config.sourceTableName || 'unknown',
+        generatedAt: finishedAt,
+        watermark: { field, from: state.runFrom, to: state.watermark }
+      }
+    };
+  }
+
+  /** Drops output written after the last checkpoint, which belongs to a batch that never finished. */
+  private prepareOutput(state: CheckpointState): void {
+    const size = fs.existsSync(this.options.output) ? fs.statSync(this.options.output).size : 0;
+    if (size < state.outputBytes) {
+      throw new ValidationError(`${this.options.output} is smaller than its checkpoint (${size} < ${state.outputBytes} bytes); it was changed outside of incremental export`);
+    }
+    if (size > state.outputBytes) fs.truncateSync(this.options.output, state.outputBytes);
+  }
+
+  private append(state: CheckpointState, rows: Record<string, any>[]): void {
+    if (rows.length === 0 || !state.columns) return;
+    const first = state.outputBytes === 0;
+    const exportOptions = this.options.exportOptions ?? {};
+    const data: TableData = {
+      columns: state.columns,
+      rows,
+      metadata: {
+        totalRows: rows.length, totalColumns: state.columns.length, mappingType: this.config.mongoMappingType,
+        sourceCollection: this.config.sourceTableName || 'unknown', generatedAt: new Date().toISOString()
+      }
+    };
+
+    let content: string;
+    if (this.format === 'csv') {
+      const exporter = createExporter({
+        ...exportOptions, format: 'csv', headers: first ? exportOptions.headers : false,
+        csv: { ...exportOptions.csv, bom: first && exportOptions.csv?.bom }
+      });
+      content = (first ? '' : (exportOptions.csv?.lineEnding ?? '\n')) + exporter.export(data);
+    } else {
+      const sql = { ...exportOptions.sql, createTable: first && exportOptions.sql?.createTable !== false };
+      content = (first ? '' : '\n') + createExporter({ ...exportOptions, format: 'sql', sql }).export(data);
+    }
+
+    const encoding = (exportOptions.encoding || 'utf-8') as BufferEncoding;
+    fs.appendFileSync(this.options.output, content, encoding);
+    state.outputBytes += Buffer.byteLength(content, encoding);
+  }
+
+  private checkpoint(state: CheckpointState, seen: SeenWatermark): void {
+    state.watermark = seen.watermark;
+    state.watermarkType = seen.type;
+    state.idsAtWatermark = [...seen.ids];
+    this.save(state);
+  }
+
+  private save(state: CheckpointState): void {
+    state.updatedAt = new Date().toISOString();
+    const temp = `${this.options.stateFile}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(state, null, 2), 'utf-8');
+    fs.renameSync(temp, this.options.stateFile);
+  }
+}
+
+export function createIncrementalExporter(config: MappingConfig, options: IncrementalExportOptions): IncrementalExporter {
+  return new IncrementalExporter(config, options);
+}
+
+/**
+ * The output's columns are fixed by its first batch. Rows with other fields
+ * would lose them, so the run stops before writing the batch instead.
+ */
+function assertKnownColumns(columns: TableColumn[], rows: Record<string, any>[]): void {
+  const known = new Set(columns.map(column => column.name));
+  const added = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!known.has(key)) added.add(key);
+  }
+  if (added.size === 0) return;
+  const fields = Array.from(added);
+  throw new ValidationError(
+    `${fields.join(', ')} ${fields.length === 1 ? 'is' : 'are'} not among the columns of the output, which were fixed by its first batch; declare a schema that includes them and start a new export`,
+    fields[0]
+  );
+}
+
+function readWatermark(doc: MongoDBDocument, field: string): { value: WatermarkValue; type: WatermarkType } {
+  let value: any = doc;
+  for (const key of field.split('.')) value = value === null || value === undefined ? undefined : value[key];
+  const bsonType = getBsonType(value);
+  const scalar = bsonType ? bsonToScalar(value) : value;
+  if (bsonType === 'date' || bsonType === 'objectId') return { value: scalar, type: bsonType };
+  if (typeof scalar === 'number') return { value: scalar, type: 'number' };
+  if (typeof scalar === 'string') return { value: scalar, type: 'string' };
+  throw new ValidationError(`document ${JSON.stringify(normalizeBsonValues(doc._id ?? null))} has no usable ${field} watermark`, field, scalar);
+}
+
+/** Numbers compare numerically; strings (ISO dates, ObjectId hex) compare lexicographically. */
+function compareWatermarks(a: WatermarkValue, b: WatermarkValue, field: string): number {
+  if (typeof a !== typeof b) throw new ValidationError(`${field} mixes ${typeof a} and ${typeof b} watermarks`, field, a);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
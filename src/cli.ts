@@ -0,0 +1,504 @@
+#!/usr/bin/env node
+/**
+ * MongoDB to 2D Table Mapping Skill - Command Line Interface
+ */
+
+import { once } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { ExportOptions, MappingConfig, MongoDBDocument, MongoDBMappingType, TableColumn, TableData, TableSet } from './types';
+import { ConfigurationError, ExportError, ValidationError } from './errors';
+import { loadMappingConfig } from './config-loader';
+import { createMapper, MongoDBToTableMapper } from './mapper';
+import { createExporter, exportTablesToFiles, exportTablesToXLSX } from './exporters';
+import { createStreamExporter } from './stream-exporters';
+import { parseArrayPaths } from './array-expand';
+import { buildNormalizedTables } from './normalize';
+
+type OutputFormat = ExportOptions['format'];
+
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+export interface CliOptions {
+  inputs: string[];
+  config?: string;
+  mode?: MongoDBMappingType;
+  arrayFields: string[];
+  include: string[];
+  exclude: string[];
+  maxDepth?: number;
+  format?: OutputFormat;
+  output?: string;
+  inputFormat?: 'json' | 'ndjson';
+  errors?: string;
+  dryRun: boolean;
+  skipInvalid: boolean;
+  quiet: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+const FORMATS: OutputFormat[] = ['csv', 'json', 'array', 'sql', 'xlsx', 'parquet'];
+const BINARY_FORMATS: OutputFormat[] = ['xlsx', 'parquet'];
+const STREAM_FORMATS: OutputFormat[] = ['csv', 'json', 'array'];
+const STREAM_BATCH_SIZE = 1000;
+const MODES: MongoDBMappingType[] = ['flatten', 'array_expand', 'normalize', 'aggregate'];
+const EXTENSION_FORMATS: Record<string, OutputFormat> = {
+  '.csv': 'csv', '.json': 'json', '.sql': 'sql', '.xlsx': 'xlsx', '.parquet': 'parquet'
+};
+
+export const CLI_USAGE = `Usage: mongodb-to-table [options] [input...]
+
+Maps mongoexport-style NDJSON or JSON array files (or stdin) to a table.
+
+Options:
+  -c, --config <file>        Mapping config file (JSON or YAML)
+  -m, --mode <mode>          flatten, array_expand, normalize or aggregate
+  -a, --array-field <path>   Array field to expand; repeat or comma-separate for several
+  -i, --include <fields>     Comma-separated paths to map, each optionally path:column
+  -x, --exclude <fields>     Comma-separated paths to leave out
+  -d, --max-depth <n>        Maximum nesting depth to flatten
+  -f, --format <format>      csv, json, array, sql, xlsx or parquet (default: from --output, else csv)
+  -o, --output <path>        Output file (a directory for normalize mode); default stdout
+      --input-format <fmt>   json or ndjson (default: detected)
+      --errors <file>        Write rejected rows to a CSV or JSON file and keep going
+      --skip-invalid         Skip invalid rows instead of stopping at the first one
+      --dry-run              Print the inferred columns instead of exporting
+  -q, --quiet                Do not print a summary to stderr
+  -h, --help                 Show this help
+  -v, --version              Show the version
+`;
+
+const VALUE_FLAGS: Record<string, string> = {
+  '-c': 'config', '--config': 'config',
+  '-m': 'mode', '--mode': 'mode',
+  '-a': 'array-field', '--array-field': 'array-field',
+  '-i': 'include', '--include': 'include',
+  '-x': 'exclude', '--exclude': 'exclude',
+  '-d': 'max-depth', '--max-depth': 'max-depth',
+  '-f': 'format', '--format': 'format',
+  '-o': 'output', '--output': 'output',
+  '--input-format': 'input-format',
+  '--errors': 'errors'
+};
+
+const BOOLEAN_FLAGS: Record<string, 'dryRun' | 'skipInvalid' | 'quiet' | 'help' | 'version'> = {
+  '--dry-run': 'dryRun',
+  '--skip-invalid': 'skipInvalid',
+  '-q': 'quiet', '--quiet': 'quiet',
+  '-h': 'help', '--help': 'help',
+  '-v': 'version', '--version': 'version'
+};
+
+/** Parses command line arguments; `-` as an input means stdin. */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    inputs: [], arrayFields: [], include: [], exclude: [],
+    dryRun: false, skipInvalid: false, quiet: false, help: false, version: false
+  };
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      options.inputs.push(arg);
+      continue;
+    }
+    const [flag, inline] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    if (BOOLEAN_FLAGS[flag]) {
+      options[BOOLEAN_FLAGS[flag]] = true;
+      continue;
+    }
+    const name = VALUE_FLAGS[flag];
+    if (!name) throw new ConfigurationError(`unknown option ${flag}`);
+    const value = inline ?? argv[++i];
+    if (value === undefined) throw new ConfigurationError(`${flag} requires a value`);
+
+    switch (name) {
+      case 'config': options.config = value; break;
+      case 'output': options.output = value; break;
+      case 'errors': options.errors = value; break;
+      case 'array-field': options.arrayFields.push(...list(value)); break;
+      case 'include': options.include.push(...list(value)); break;
+      case 'exclude': options.exclude.push(...list(value)); break;
+      case 'mode':
+        if (!MODES.includes(value as MongoDBMappingType)) throw new ConfigurationError(`--mode must be one of ${MODES.join(', ')}`);
+        options.mode = value as MongoDBMappingType;
+        break;
+      case 'format':
+        if (!FORMATS.includes(value as OutputFormat)) throw new ConfigurationError(`--format must be one of ${FORMATS.join(', ')}`);
+        options.format = value as OutputFormat;
+        break;
+      case 'input-format':
+        if (value !== 'json' && value !== 'ndjson') throw new ConfigurationError('--input-format must be json or ndjson');
+        options.inputFormat = value;
+        break;
+      case 'max-depth':
+        if (!/^\d+$/.test(value) || Number(value) < 1) throw new ConfigurationError('--max-depth must be a positive integer');
+        options.maxDepth = Number(value);
+        break;
+    }
+  }
+  if (options.config && options.include.length > 0) {
+    throw new ConfigurationError('--include cannot be combined with --config; add the fields to the config instead');
+  }
+  return options;
+}
+
+/**
+ * Builds the mapping config from `--config` and the inline flags. Inline flags
+ * override the matching config settings.
+ */
+export function buildCliConfig(options: CliOptions): MappingConfig {
+  const base: MappingConfig = options.config
+    ? loadMappingConfig(options.config)
+    : {
+      mongoMappingType: 'flatten',
+      sourceTableName: sourceName(options.inputs),
+      fieldMappings: options.include.map(entry => {
+        const separator = entry.lastIndexOf(':');
+        return separator > 0
+          ? { databaseField: entry.slice(0, separator), documentField: entry.slice(separator + 1) }
+          : { databaseField: entry, documentField: entry };
+      }),
+      options: { includeAllFields: options.include.length === 0 }
+    };
+
+  const config: MappingConfig = { ...base, options: { ...base.options } };
+  if (options.mode) config.mongoMappingType = options.mode;
+  if (options.arrayFields.length === 1) {
+    config.mongoArrayField = options.arrayFields[0];
+    delete config.mongoArrayFields;
+  } else if (options.arrayFields.length > 1) {
+    config.mongoArrayFields = options.arrayFields;
+    delete config.mongoArrayField;
+  }
+  if (options.exclude.length > 0) config.options!.excludeFields = [...(config.options!.excludeFields ?? []), ...options.exclude];
+  if (options.maxDepth !== undefined) config.options!.maxDepth = options.maxDepth;
+  if (options.skipInvalid || options.errors) config.options!.skipInvalidRows = true;
+  return config;
+}
+
+/**
+ * Parses a JSON array or newline-delimited JSON, as written by `mongoexport`
+ * with and without `--jsonArray`. The format is detected unless given.
+ */
+export function parseDocuments(text: string, format?: 'json' | 'ndjson', source = 'input'): MongoDBDocument[] {
+  const parser = new DocumentParser(format, source);
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Incremental version of {@link parseDocuments}: text is pushed in chunks and
+ * each document is returned as soon as it is complete, so a large JSON array
+ * never has to be held as one string.
+ */
+export class DocumentParser {
+  private mode?: 'array' | 'value' | 'ndjson';
+  private buffer = '';
+  private line = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private closed = false;
+
+  constructor(private format?: 'json' | 'ndjson', private source = 'input') {}
+
+  push(text: string): MongoDBDocument[] {
+    if (!this.mode) {
+      text = this.buffer + text;
+      this.buffer = '';
+      const first = /[^\s\uFEFF]/.exec(text);
+      if (!first) {
+        this.buffer = text;
+        return [];
+      }
+      if (text.startsWith('\uFEFF')) text = text.slice(1);
+      this.mode = first[0] === '[' && this.format !== 'ndjson' ? 'array' : this.format === 'json' ? 'value' : 'ndjson';
+    }
+    if (this.mode === 'value') {
+      this.buffer += text;
+      return [];
+    }
+    return this.mode === 'ndjson' ? this.pushLines(text) : this.pushArray(text);
+  }
+
+  end(): MongoDBDocument[] {
+    if (this.mode === 'ndjson') return this.pushLines('\n');
+    if (this.mode === 'array' && !this.closed) throw new ValidationError(`cannot parse ${this.source} as JSON: unexpected end of input`);
+    if (this.mode !== 'value') return [];
+    const parsed = this.parse(this.buffer);
+    if (Array.isArray(parsed)) return parsed;
+    if (parsed && typeof parsed === 'object') return [parsed as MongoDBDocument];
+    throw new ValidationError(`${this.source} must contain a JSON array or objects`);
+  }
+
+  private pushLines(text: string): MongoDBDocument[] {
+    const lines = (this.buffer + text).split('\n');
+    this.buffer = lines.pop()!;
+    const documents: MongoDBDocument[] = [];
+    for (const line of lines) {
+      this.line++;
+      if (line.trim() === '') continue;
+      try {
+        documents.push(JSON.parse(line));
+      } catch (error) {
+        throw new ValidationError(`cannot parse ${this.source} line ${this.line}: ${(error as Error).message}`);
+      }
+    }
+    return documents;
+  }
+
+  /** Splits the elements of the outer array by tracking nesting depth and strings. */
+  private pushArray(text: string): MongoDBDocument[] {
+    const documents: MongoDBDocument[] = [];
+    const flush = (element: string) => {
+      if (element.trim() !== '') documents.push(this.parse(element));
+    };
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (this.closed) {
+        if (!/\s/.test(char)) throw new ValidationError(`cannot parse ${this.source} as JSON: unexpected data after the array`);
+      } else if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '[' || char === '{') {
+        if (++this.depth === 1) start = i + 1;
+      } else if (char === ']' || char === '}') {
+        if (--this.depth === 0) {
+          flush(this.buffer + text.slice(start, i));
+          this.buffer = '';
+          this.closed = true;
+        }
+      } else if (char === ',' && this.depth === 1) {
+        flush(this.buffer + text.slice(start, i));
+        this.buffer = '';
+        start = i + 1;
+      }
+    }
+    if (this.depth > 0) this.buffer += text.slice(start);
+    return documents;
+  }
+
+  private parse(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ValidationError(`cannot parse ${this.source} as JSON: ${(error as Error).message}`);
+    }
+  }
+}
+
+/** Runs the CLI and resolves with the process exit code. */
+export async function runCli(argv: string[], io: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr }): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    await write(io.stderr, `mongodb-to-table: ${(error as Error).message}\nRun with --help for usage.\n`);
+    return 2;
+  }
+  if (options.help) {
+    await write(io.stdout, CLI_USAGE);
+    return 0;
+  }
+  if (options.version) {
+    await write(io.stdout, `${require(path.join(__dirname, '..', 'package.json')).version}\n`);
+    return 0;
+  }
+
+  try {
+    const config = buildCliConfig(options);
+    const documents = readDocuments(options, io.stdin);
+    const mapper = createMapper(config);
+    const format = options.format ?? EXTENSION_FORMATS[path.extname(options.output ?? '').toLowerCase()] ?? 'csv';
+
+    if (config.mongoMappingType === 'normalize') {
+      const collected: MongoDBDocument[] = [];
+      for await (const doc of documents) collected.push(doc);
+      const tables = collected.length > 0 ? mapper.mapNormalized(collected) : emptyTables(config);
+      if (options.dryRun) {
+        await write(io.stdout, Object.entries(tables).map(([name, table]) => `${name}\n${describeColumns(table.columns)}`).join('\n'));
+      } else if (format === 'xlsx') {
+        await writeOutput(io, options.output, exportTablesToXLSX(tables));
+      } else if (!options.output) {
+        throw new ConfigurationError('normalize mode writes one file per table; set --output to a directory');
+      } else {
+        exportTablesToFiles(tables, options.output, { format, headers: true });
+      }
+    } else if (options.dryRun) {
+      let columns = mapper.getDeclaredColumns();
+      for await (const batch of mapper.mapStream(documents, { batchSize: STREAM_BATCH_SIZE })) columns = batch.columns;
+      await write(io.stdout, describeColumns(columns));
+    } else if (STREAM_FORMATS.includes(format)) {
+      const stream = options.output ? await openOutputFile(options.output, format) : io.stdout;
+      const columns = await streamTable(mapper, documents, format, stream as Writable, {
+        mappingType: config.mongoMappingType,
+        sourceCollection: config.sourceTableName || 'unknown',
+        generatedAt: new Date().toISOString()
+      });
+      if (format !== 'csv' || columns.length > 0) await write(stream, '\n');
+      if (options.output) await close(stream as Writable);
+    } else {
+      const table = await mapper.mapAsyncIterable(documents, { batchSize: STREAM_BATCH_SIZE });
+      if (table.rows.length === 0) table.columns = mapper.getDeclaredColumns();
+      await writeOutput(io, options.output, exportTable(table, format));
+    }
+
+    if (options.errors) {
+      fs.writeFileSync(options.errors, mapper.exportErrors(path.extname(options.errors).toLowerCase() === '.json' ? 'json' : 'csv'), 'utf-8');
+    }
+    if (!options.quiet) {
+      const stats = mapper.getStats();
+      const errors = stats.errorCount > 0 ? `, ${stats.errorCount} error(s)` : '';
+      await write(io.stderr, `Mapped ${stats.totalDocuments} document(s) to ${stats.processedRows} row(s)${errors}\n`);
+    }
+    return 0;
+  } catch (error) {
+    await write(io.stderr, `mongodb-to-table: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+async function* readDocuments(options: CliOptions, stdin: NodeJS.ReadableStream): AsyncGenerator<MongoDBDocument> {
+  const inputs = options.inputs.length > 0 ? options.inputs : ['-'];
+  for (const input of inputs) {
+    const parser = new DocumentParser(options.inputFormat, input === '-' ? 'stdin' : input);
+    const decoder = new StringDecoder('utf-8');
+    for await (const chunk of input === '-' ? stdin : openInputFile(input)) {
+      yield* parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+    }
+    yield* parser.push(decoder.end());
+    yield* parser.end();
+  }
+}
+
+function openInputFile(filePath: string): fs.ReadStream {
+  try {
+    fs.accessSync(filePath, fs.constants.R_OK);
+  } catch (error) {
+    throw new ValidationError(`cannot read ${filePath}: ${(error as Error).message}`);
+  }
+  return fs.createReadStream(filePath);
+}
+
+/** Opens the output before any input is mapped; `once` listens for 'error' from creation, so a bad path rejects instead of crashing. */
+async function openOutputFile(filePath: string, format: OutputFormat): Promise<fs.WriteStream> {
+  const stream = fs.createWriteStream(filePath);
+  try {
+    await once(stream, 'open');
+  } catch (error) {
+    throw new ExportError(`cannot write ${filePath}: ${(error as Error).message}`, format);
+  }
+  return stream;
+}
+
+/**
+ * Maps documents batch by batch and writes the rows with a stream exporter.
+ * The header needs every column, so rows wait in a temporary NDJSON file until
+ * the last batch is mapped. Returns the columns that were written.
+ */
+async function streamTable(
+  mapper: MongoDBToTableMapper,
+  documents: AsyncIterable<MongoDBDocument>,
+  format: OutputFormat,
+  stream: Writable,
+  metadata: Partial<TableData['metadata']>
+): Promise<TableColumn[]> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongodb-to-table-'));
+  const spill = path.join(dir, 'rows.ndjson');
+  try {
+    let columns: TableColumn[] | undefined;
+    const fd = fs.openSync(spill, 'w');
+    try {
+      for await (const batch of mapper.mapStream(documents, { batchSize: STREAM_BATCH_SIZE })) {
+        fs.writeSync(fd, batch.rows.map(row => `${JSON.stringify(row)}\n`).join(''));
+        columns = batch.columns;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    columns = columns ?? mapper.getDeclaredColumns();
+    const exporter = createStreamExporter(stream, { format, headers: true }, false);
+    await exporter.writeHeader(columns);
+    let rows: Record<string, any>[] = [];
+    for await (const line of readline.createInterface({ input: fs.createReadStream(spill), crlfDelay: Infinity })) {
+      rows.push(JSON.parse(line));
+      if (rows.length < STREAM_BATCH_SIZE) continue;
+      await exporter.writeRows(rows);
+      rows = [];
+    }
+    await exporter.writeRows(rows);
+    await exporter.end(metadata);
+    return columns;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** The tables of normalize mode without rows, for empty input. */
+function emptyTables(config: MappingConfig): TableSet {
+  const arrayPaths = parseArrayPaths(config.mongoArrayFields ?? (config.mongoArrayField ? [config.mongoArrayField] : []));
+  const tables: TableSet = {};
+  for (const definition of buildNormalizedTables(config.sourceTableName || 'root', arrayPaths)) {
+    tables[definition.name] = {
+      columns: [],
+      rows: [],
+      metadata: {
+        totalRows: 0, totalColumns: 0, mappingType: 'normalize', sourceCollection: config.sourceTableName || 'unknown',
+        generatedAt: new Date().toISOString(), tableName: definition.name, parentTable: definition.parentTable, foreignKeys: definition.foreignKeys
+      }
+    };
+  }
+  return tables;
+}
+
+function exportTable(table: TableData, format: OutputFormat): string | Buffer {
+  const content = createExporter({ format, headers: true }).export(table);
+  if (BINARY_FORMATS.includes(format)) return Buffer.from(content, 'base64');
+  return content.endsWith('\n') || content === '' ? content : content + '\n';
+}
+
+async function writeOutput(io: CliIO, output: string | undefined, content: string | Buffer): Promise<void> {
+  if (output) fs.writeFileSync(output, content);
+  else await write(io.stdout, content);
+}
+
+function describeColumns(columns: TableColumn[]): string {
+  const width = Math.max(6, ...columns.map(col => col.name.length));
+  const lines = columns.map(col => `${col.name.padEnd(width)}  ${col.type.padEnd(8)}  ${col.required ? 'required' : 'optional'}`);
+  return [`${'column'.padEnd(width)}  ${'type'.padEnd(8)}  nullability`, ...lines].join('\n') + '\n';
+}
+
+function sourceName(inputs: string[]): string | undefined {
+  const file = inputs.find(input => input !== '-');
+  return file ? path.basename(file).replace(/\.(nd)?json$|\.jsonl$/i, '') : undefined;
+}
+
+function write(stream: NodeJS.WritableStream, content: string | Buffer): Promise<void> {
+  return new Promise((resolve, reject) => stream.write(content, error => (error ? reject(error) : resolve())));
+}
+
+function close(stream: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
@@ -0,0 +1,83 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Incremental Column Inference
+ */
+
+import { TableColumn } from './types';
+import { getValueType, mergeValueTypes } from './transformers';
+
+interface ColumnState {
+  type?: string;
+  nonNullCount: number;
+}
+
+/** Plain-data form of a ColumnTracker, e.g. for passing between worker threads. */
+export interface ColumnTrackerSnapshot {
+  rowCount: number;
+  columns: Array<{ name: string; type?: string; nonNullCount: number }>;
+}
+
+export class ColumnTracker {
+  private states = new Map<string, ColumnState>();
+  private rowCount = 0;
+
+  observe(row: Record<string, any>): void {
+    this.rowCount++;
+    for (const [name, value] of Object.entries(row)) {
+      let state = this.states.get(name);
+      if (!state) {
+        state = { nonNullCount: 0 };
+        this.states.set(name, state);
+      }
+      if (value === null || value === undefined) continue;
+      state.nonNullCount++;
+      state.type = mergeValueTypes(state.type, getValueType(value));
+    }
+  }
+
+  /**
+   * Adds the rows observed by another tracker, as if they had been observed
+   * here after this tracker's own rows.
+   */
+  merge(other: ColumnTracker): this {
+    this.rowCount += other.rowCount;
+    for (const [name, state] of other.states) {
+      const current = this.states.get(name);
+      if (!current) {
+        this.states.set(name, { ...state });
+        continue;
+      }
+      current.nonNullCount += state.nonNullCount;
+      if (state.type !== undefined) current.type = mergeValueTypes(current.type, state.type);
+    }
+    return this;
+  }
+
+  snapshot(): ColumnTrackerSnapshot {
+    return {
+      rowCount: this.rowCount,
+      columns: Array.from(this.states, ([name, state]) => ({ name, type: state.type, nonNullCount: state.nonNullCount }))
+    };
+  }
+
+  static fromSnapshot(snapshot: ColumnTrackerSnapshot): ColumnTracker {
+    const tracker = new ColumnTracker();
+    tracker.rowCount = snapshot.rowCount;
+    for (const { name, type, nonNullCount } of snapshot.columns) tracker.states.set(name, { type, nonNullCount });
+    return tracker;
+  }
+
+  get totalRows(): number { return this.rowCount; }
+
+  getColumns(): TableColumn[] {
+    const columns: TableColumn[] = [];
+    for (const [name, state] of this.states) {
+      columns.push({ name, type: state.type ?? 'unknown', required: state.nonNullCount === this.rowCount });
+    }
+
+    return columns.sort((a, b) => {
+      if (a.required && !b.required) return -1;
+      if (!a.required && b.required) return 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Config File Loader
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYAML } from 'yaml';
+import { ConfigIssue, MappingConfig } from './types';
+import { ConfigurationError, ConfigValidationError, validateMappingConfig } from './errors';
+import { mappingConfigSchema, validateAgainstSchema } from './config-schema';
+import { toTransformRules, validateTransformRules } from './transformer-registry';
+import { compileExpression } from './expressions';
+import { findQueryIssues } from './query';
+
+export type ConfigFileFormat = 'json' | 'yaml';
+
+export interface ConfigLoadOptions {
+  /** Parse format; `loadMappingConfig` infers it from the file extension when omitted. */
+  format?: ConfigFileFormat;
+  /**
+   * Functions that `{ type: 'custom', name }` transforms in the file refer to.
+   * Names not listed here are looked up in the transformer registry.
+   */
+  transforms?: Record<string, (value: any) => any>;
+  /** Label used in error messages, usually the file path. */
+  source?: string;
+}
+
+/**
+ * Reads a JSON or YAML mapping config from disk. `.yaml` and `.yml` files are
+ * parsed as YAML, everything else as JSON.
+ */
+export function loadMappingConfig(filePath: string, options: ConfigLoadOptions = {}): MappingConfig {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`cannot read ${filePath}: ${(error as Error).message}`);
+  }
+  const format = options.format ?? (['.yaml', '.yml'].includes(extname(filePath).toLowerCase()) ? 'yaml' : 'json');
+  return parseMappingConfig(text, { ...options, format, source: options.source ?? filePath });
+}
+
+export function parseMappingConfig(text: string, options: ConfigLoadOptions = {}): MappingConfig {
+  const format = options.format ?? 'json';
+  const source = options.source ?? `${format.toUpperCase()} config`;
+  let raw: any;
+  try {
+    raw = format === 'yaml' ? parseYAML(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(`cannot parse ${source}: ${(error as Error).message}`);
+  }
+  return resolveMappingConfig(raw, options);
+}
+
+/**
+ * Validates a plain config object (as parsed from a file) against the published
+ * schema, then replaces named custom transforms with the registered functions.
+ * Throws ConfigValidationError listing every problem found.
+ */
+export function resolveMappingConfig(raw: unknown, options: ConfigLoadOptions = {}): MappingConfig {
+  const issues = validateAgainstSchema(raw, mappingConfigSchema);
+  const config = raw as MappingConfig;
+  resolveNamedTransforms(config, options.transforms ?? {});
+  issues.push(...validateTransformRules(config?.fieldMappings));
+  issues.push(...validateTransformRules(config?.derivedFields, 'derivedFields'));
+  issues.push(...checkExpressions(config));
+  if (config?.filter !== undefined) issues.push(...findQueryIssues(config.filter));
+  if (issues.length > 0) throw new ConfigValidationError(issues, options.source);
+
+  delete (config as Record<string, any>).$schema;
+  validateMappingConfig(config);
+  return config;
+}
+
+function resolveNamedTransforms(config: MappingConfig, transforms: Record<string, (value: any) => any>): void {
+  const entries = [config?.fieldMappings, config?.derivedFields].filter(Array.isArray).flat();
+  for (const entry of entries) {
+    for (const rule of toTransformRules(entry?.transform)) {
+      if (rule?.type === 'custom' && rule.name && typeof transforms[rule.name] === 'function') {
+        rule.customTransform = transforms[rule.name];
+      }
+    }
+  }
+}
+
+function checkExpressions(config: MappingConfig): ConfigIssue[] {
+  if (!Array.isArray(config?.derivedFields)) return [];
+  const issues: ConfigIssue[] = [];
+  config.derivedFields.forEach((field, i) => {
+    if (typeof field?.expression !== 'string') return;
+    try {
+      compileExpression(field.expression);
+    } catch (error) {
+      issues.push({ path: `derivedFields[${i}].expression`, message: (error as Error).message.replace(/^Configuration error: /, '') });
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,318 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Mapping Config JSON Schema
+ */
+
+import { ConfigIssue } from './types';
+
+/** Subset of JSON Schema (draft-07) understood by `validateAgainstSchema`. */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: any[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  anyOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  if?: JSONSchema;
+  then?: JSONSchema;
+  definitions?: Record<string, JSONSchema>;
+}
+
+const stringArray: JSONSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const transformRuleSchema: JSONSchema = {
+  type: 'object',
+  required: ['type'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', minLength: 1 },
+    format: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    params: { type: 'object' }
+  },
+  if: { required: ['type'], properties: { type: { enum: ['custom'] } } },
+  then: { required: ['name'] }
+};
+
+/**
+ * JSON Schema for mapping config files. Reference it from a config's `$schema`
+ * key to get editor completion; `loadMappingConfig` validates against it. The
+ * package ships it as `mapping-config.schema.json`, written by `npm run build:schema`.
+ */
+export const mappingConfigSchema: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://unpkg.com/mongodb-to-table/mapping-config.schema.json',
+  title: 'MongoDB to table mapping config',
+  type: 'object',
+  required: ['mongoMappingType', 'fieldMappings'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    mongoMappingType: { enum: ['flatten', 'array_expand', 'normalize', 'aggregate'] },
+    mongoArrayField: { type: 'string', minLength: 1 },
+    mongoArrayFields: { ...stringArray, minItems: 1 },
+    arrayExpandStrategy: { enum: ['cartesian', 'zip'] },
+    sourceTableName: { type: 'string', minLength: 1 },
+    filter: { type: 'object', description: 'MongoDB-style query document' },
+    fieldMappings: { type: 'array', items: { $ref: '#/definitions/fieldMapping' } },
+    derivedFields: { type: 'array', items: { $ref: '#/definitions/derivedField' } },
+    aggregation: { $ref: '#/definitions/aggregation' },
+    schema: { $ref: '#/definitions/tableSchema' },
+    redaction: { $ref: '#/definitions/redaction' },
+    options: { $ref: '#/definitions/options' }
+  },
+  allOf: [
+    {
+      if: { required: ['mongoMappingType'], properties: { mongoMappingType: { enum: ['array_expand', 'normalize'] } } },
+      then: {
+        anyOf: [{ required: ['mongoArrayField'] }, { required: ['mongoArrayFields'] }],
+        description: 'mongoArrayField or mongoArrayFields is required for array_expand and normalize'
+      }
+    },
+    {
+      if: { required: ['mongoMappingType'], properties: { mongoMappingType: { enum: ['aggregate'] } } },
+      then: { required: ['aggregation'] }
+    }
+  ],
+  definitions: {
+    fieldMapping: {
+      type: 'object',
+      required: ['databaseField', 'documentField'],
+      additionalProperties: false,
+      properties: {
+        databaseField: { type: 'string', minLength: 1 },
+        documentField: { type: 'string', minLength: 1 },
+        transform: { $ref: '#/definitions/transform' },
+        required: { type: 'boolean' },
+        defaultValue: {}
+      }
+    },
+    aggregation: {
+      type: 'object',
+      required: ['groupBy', 'aggregates'],
+      additionalProperties: false,
+      properties: {
+        groupBy: stringArray,
+        aggregates: { type: 'array', minItems: 1, items: { $ref: '#/definitions/aggregate' } }
+      }
+    },
+    aggregate: {
+      type: 'object',
+      required: ['name', 'op'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        op: { enum: ['count', 'sum', 'avg', 'min', 'max', 'countDistinct', 'first', 'last', 'concat'] },
+        field: { type: 'string', minLength: 1 },
+        separator: { type: 'string' },
+        distinct: { type: 'boolean' }
+      }
+    },
+    derivedField: {
+      type: 'object',
+      required: ['name', 'expression'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        expression: { type: 'string', minLength: 1 },
+        transform: { $ref: '#/definitions/transform' }
+      }
+    },
+    transform: {
+      ...transformRuleSchema,
+      type: ['object', 'array'],
+      items: { $ref: '#/definitions/transformRule' },
+      minItems: 1
+    },
+    transformRule: transformRuleSchema,
+    tableSchema: {
+      type: 'object',
+      required: ['columns'],
+      additionalProperties: false,
+      properties: {
+        columns: { type: 'array', items: { $ref: '#/definitions/column' } },
+        additionalColumns: { type: 'boolean' }
+      }
+    },
+    column: {
+      type: 'object',
+      required: ['name'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        type: { enum: ['string', 'integer', 'long', 'float', 'number', 'decimal', 'boolean', 'date', 'array', 'object', 'objectId', 'uuid', 'binary', 'timestamp'] },
+        nullable: { type: 'boolean' },
+        enum: { type: 'array' },
+        pattern: { type: 'string' },
+        min: { type: 'number' },
+        max: { type: 'number' },
+        minLength: { type: 'integer', minimum: 0 },
+        maxLength: { type: 'integer', minimum: 0 }
+      }
+    },
+    redaction: {
+      type: 'object',
+      required: ['rules'],
+      additionalProperties: false,
+      properties: {
+        rules: { type: 'array', items: { $ref: '#/definitions/redactionRule' } },
+        salt: { type: 'string', minLength: 1 },
+        algorithm: { type: 'string' },
+        tokenPrefix: { type: 'string' },
+        detectPii: { type: 'boolean' }
+      }
+    },
+    redactionRule: {
+      type: 'object',
+      required: ['path', 'action'],
+      additionalProperties: false,
+      properties: {
+        path: { type: 'string', minLength: 1, description: 'Flattened path or glob, e.g. *.email' },
+        action: { enum: ['drop', 'mask', 'hash', 'tokenize'] },
+        keepStart: { type: 'integer', minimum: 0 },
+        keepEnd: { type: 'integer', minimum: 0 },
+        maskChar: { type: 'string', minLength: 1 }
+      }
+    },
+    options: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        includeAllFields: { type: 'boolean' },
+        excludeFields: stringArray,
+        maxDepth: { type: 'integer', minimum: 1 },
+        dateFormat: { type: 'string' },
+        nullValue: { type: 'string' },
+        arraySeparator: { type: 'string' },
+        skipInvalidRows: { type: 'boolean' },
+        includeArrayIndex: { type: 'boolean' },
+        arrayPolicies: { type: 'array', items: { $ref: '#/definitions/arrayPolicy' } },
+        columnNaming: { $ref: '#/definitions/columnNaming' },
+        preserveBufferFields: { type: 'boolean' }
+      }
+    },
+    arrayPolicy: {
+      type: 'object',
+      required: ['path', 'mode'],
+      additionalProperties: false,
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        mode: { enum: ['indexed', 'json', 'join', 'first', 'last', 'count', 'sum', 'avg', 'min', 'max'] },
+        field: { type: 'string', minLength: 1 },
+        maxItems: { type: 'integer', minimum: 1 },
+        separator: { type: 'string' },
+        column: { type: 'string', minLength: 1 }
+      }
+    },
+    columnNaming: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        separator: { type: 'string' },
+        case: { enum: ['preserve', 'snake', 'camel'] },
+        maxLength: { type: 'integer', minimum: 16 },
+        reservedWords: stringArray
+      }
+    }
+  }
+};
+
+/**
+ * Validates a value against a JSON Schema, collecting every issue with the path
+ * where it occurred instead of stopping at the first one.
+ */
+export function validateAgainstSchema(value: any, schema: JSONSchema, root: JSONSchema = schema, path = ''): ConfigIssue[] {
+  if (schema.$ref) return validateAgainstSchema(value, resolveRef(schema.$ref, root), root, path);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `must be ${types.join(' or ')} but got ${describeType(value)}` }];
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [{ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')} but got ${JSON.stringify(value)}` }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be >= ${schema.minimum} but got ${value}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, root, `${path}[${i}]`)));
+    }
+  } else if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) issues.push({ path: joinPath(path, key), message: 'is required' });
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateAgainstSchema(item, propertySchema, root, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not a recognized setting' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateAgainstSchema(item, schema.additionalProperties, root, joinPath(path, key)));
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateAgainstSchema(value, option, root, path).length === 0)) {
+    issues.push({ path, message: schema.description ?? 'does not match any of the allowed shapes' });
+  }
+  for (const part of schema.allOf ?? []) issues.push(...validateAgainstSchema(value, part, root, path));
+  if (schema.if && schema.then && validateAgainstSchema(value, schema.if, root, path).length === 0) {
+    issues.push(...validateAgainstSchema(value, schema.then, root, path));
+  }
+  return issues;
+}
+
+function resolveRef(ref: string, root: JSONSchema): JSONSchema {
+  const name = ref.replace(/^#\/definitions\//, '');
+  const target = root.definitions?.[name];
+  if (!target) throw new Error(`Unresolvable schema reference: ${ref}`);
+  return target;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && !Number.isInteger(value)) return `number ${value}`;
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,113 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - CSV Parser
+ */
+
+import { TableData, TableColumn } from './types';
+import { ValidationError } from './errors';
+
+export interface CSVParseOptions {
+  separator?: string;
+  quoteCharacter?: string;
+  headers?: boolean;
+  /** Treat empty cells as null, the way CSVExporter writes nulls. Defaults to true. */
+  emptyAsNull?: boolean;
+}
+
+/**
+ * Parses CSV text as written by CSVExporter (RFC 4180 quoting, `\n` or `\r\n`
+ * line endings) back into TableData. All cells are returned as strings.
+ */
+export function parseCSV(text: string, options: CSVParseOptions = {}): TableData {
+  const records = parseRecords(text, options.separator ?? ',', options.quoteCharacter ?? '"');
+  const emptyAsNull = options.emptyAsNull !== false;
+
+  let names: string[];
+  if (options.headers !== false) {
+    names = records.shift() ?? [];
+  } else {
+    const width = Math.max(0, ...records.map(record => record.length));
+    names = Array.from({ length: width }, (_, i) => `column${i + 1}`);
+  }
+
+  const rows = records.map((record, index) => {
+    if (record.length > names.length) {
+      throw new ValidationError(`row ${index + 1} has ${record.length} cells but there are ${names.length} columns`);
+    }
+    const row: Record<string, any> = {};
+    names.forEach((name, i) => {
+      const cell = record[i];
+      row[name] = cell === undefined || (emptyAsNull && cell === '') ? null : cell;
+    });
+    return row;
+  });
+
+  const columns: TableColumn[] = names.map(name => ({
+    name,
+    type: 'string',
+    required: rows.every(row => row[name] !== null)
+  }));
+
+  return {
+    columns,
+    rows,
+    metadata: {
+      totalRows: rows.length,
+      totalColumns: columns.length,
+      mappingType: 'flatten',
+      sourceCollection: '',
+      generatedAt: new Date().toISOString()
+    }
+  };
+}
+
+function parseRecords(text: string, separator: string, quote: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (inQuotes) {
+      if (text.startsWith(quote, i)) {
+        if (text.startsWith(quote, i + quote.length)) {
+          cell += quote;
+          i += quote.length * 2;
+          continue;
+        }
+        inQuotes = false;
+        i += quote.length;
+        continue;
+      }
+      cell += char;
+      i++;
+      continue;
+    }
+
+    if (text.startsWith(quote, i) && cell === '') {
+      inQuotes = true;
+      i += quote.length;
+    } else if (text.startsWith(separator, i)) {
+      record.push(cell);
+      cell = '';
+      i += separator.length;
+    } else if (char === '\n' || char === '\r') {
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      cell += char;
+      i++;
+    }
+  }
+
+  if (inQuotes) throw new ValidationError('unterminated quoted field in CSV input');
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  return records;
+}
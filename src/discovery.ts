@@ -0,0 +1,210 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Schema Discovery
+ */
+
+import { ArrayFieldInfo, FieldMapping, MappingConfig, MongoDBDocument, MongoDBMappingType, TransformRule } from './types';
+import { ConfigurationError } from './errors';
+import { flattenObject, getValueType, mergeValueTypes } from './transformers';
+import { isBsonValue, bsonToScalar } from './bson';
+import { ColumnNamer } from './naming';
+
+export interface DiscoveryOptions {
+  /** Number of documents to inspect from the start of the input. Defaults to 1000. */
+  sampleSize?: number;
+  maxExamples?: number;
+  maxDepth?: number;
+}
+
+export interface FieldReport {
+  /** Flattened path with array indexes collapsed, e.g. `items[].sku`. */
+  path: string;
+  types: Record<string, number>;
+  inferredType: string;
+  presentCount: number;
+  nullCount: number;
+  missingCount: number;
+  nullRate: number;
+  missingRate: number;
+  isArray: boolean;
+  examples: any[];
+}
+
+export interface SchemaReport {
+  sampledDocuments: number;
+  fields: FieldReport[];
+  arrays: ArrayFieldInfo[];
+}
+
+export interface StarterConfigOptions {
+  mongoMappingType?: MongoDBMappingType;
+  mongoArrayField?: string;
+  sourceTableName?: string;
+}
+
+interface FieldState {
+  types: Record<string, number>;
+  inferredType?: string;
+  presentCount: number;
+  nullCount: number;
+  examples: any[];
+}
+
+interface ArrayState {
+  hasObjects: boolean;
+  nestedFields: Set<string>;
+}
+
+const INDEX_PATTERN = /\[\d+\]/g;
+
+/**
+ * Samples documents and reports every flattened path with its observed types,
+ * null/missing rates, array membership and example values.
+ */
+export function discoverSchema(documents: Iterable<MongoDBDocument>, options: DiscoveryOptions = {}): SchemaReport {
+  const sampleSize = options.sampleSize ?? 1000;
+  const maxExamples = options.maxExamples ?? 3;
+  const fields = new Map<string, FieldState>();
+  const arrays = new Map<string, ArrayState>();
+  let sampled = 0;
+
+  for (const doc of documents) {
+    if (sampled >= sampleSize) break;
+    sampled++;
+
+    const seen = new Set<string>();
+    const nullPaths = new Set<string>();
+    for (const [key, value] of Object.entries(flattenObject(doc, '', options.maxDepth ?? 20))) {
+      const path = key.replace(INDEX_PATTERN, '[]');
+      recordArrays(key, arrays);
+
+      let state = fields.get(path);
+      if (!state) {
+        state = { types: {}, presentCount: 0, nullCount: 0, examples: [] };
+        fields.set(path, state);
+      }
+      if (!seen.has(path)) {
+        seen.add(path);
+        state.presentCount++;
+      }
+
+      if (value === null || value === undefined) {
+        if (!nullPaths.has(path)) {
+          nullPaths.add(path);
+          state.nullCount++;
+        }
+        continue;
+      }
+
+      const type = getValueType(value);
+      state.types[type] = (state.types[type] || 0) + 1;
+      state.inferredType = mergeValueTypes(state.inferredType, type);
+      if (Array.isArray(value)) recordPrimitiveArray(path, value, arrays);
+
+      const example = isBsonValue(value) ? bsonToScalar(value) : value;
+      if (state.examples.length < maxExamples && !state.examples.some(existing => JSON.stringify(existing) === JSON.stringify(example))) {
+        state.examples.push(example);
+      }
+    }
+  }
+
+  const fieldReports: FieldReport[] = Array.from(fields.entries())
+    .map(([path, state]) => ({
+      path,
+      types: state.types,
+      inferredType: state.inferredType ?? 'unknown',
+      presentCount: state.presentCount,
+      nullCount: state.nullCount,
+      missingCount: sampled - state.presentCount,
+      nullRate: sampled ? state.nullCount / sampled : 0,
+      missingRate: sampled ? (sampled - state.presentCount) / sampled : 0,
+      isArray: path.includes('[]') || state.inferredType === 'array',
+      examples: state.examples
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const arrayReports: ArrayFieldInfo[] = Array.from(arrays.entries())
+    .map(([fieldName, state]) => ({
+      fieldName,
+      elementType: state.hasObjects ? 'object' as const : 'primitive' as const,
+      ...(state.hasObjects ? { nestedFields: Array.from(state.nestedFields).sort() } : {})
+    }))
+    .sort((a, b) => a.fieldName.localeCompare(b.fieldName));
+
+  return { sampledDocuments: sampled, fields: fieldReports, arrays: arrayReports };
+}
+
+/**
+ * Turns a discovery report into a starter MappingConfig. Scalar paths become field
+ * mappings named after the path (`user.name` -> `user_name`) with a transform for
+ * numeric, boolean and date columns. In array_expand mode the fields of
+ * `mongoArrayField` elements, or the elements of a primitive array, are mapped too.
+ * Paths that would share a column name get a hash suffix, as with `columnNaming`.
+ */
+export function reportToMappingConfig(report: SchemaReport, options: StarterConfigOptions = {}): MappingConfig {
+  const mongoMappingType = options.mongoMappingType ?? 'flatten';
+  if (mongoMappingType === 'array_expand' && !options.mongoArrayField) {
+    throw new ConfigurationError('mongoArrayField is required when using array_expand');
+  }
+
+  const arrayPrefix = options.mongoArrayField ? `${options.mongoArrayField.replace(/\[\]$/, '')}[]` : undefined;
+  const primitiveArrays = new Set(report.arrays.filter(array => array.elementType === 'primitive').map(array => `${array.fieldName}[]`));
+  const namer = new ColumnNamer({ reservedWords: [] });
+  const fieldMappings: FieldMapping[] = [];
+  for (const field of report.fields) {
+    if (mongoMappingType === 'array_expand' && arrayPrefix === `${field.path}[]` && primitiveArrays.has(arrayPrefix)) {
+      fieldMappings.push({ databaseField: arrayPrefix, documentField: namer.name(arrayPrefix) });
+      continue;
+    }
+    const inArray = field.path.includes('[]');
+    const inExpandedArray = mongoMappingType === 'array_expand' && arrayPrefix !== undefined
+      && (field.path === arrayPrefix || field.path.startsWith(`${arrayPrefix}.`))
+      && !field.path.slice(arrayPrefix.length).includes('[]');
+    if (inArray && !inExpandedArray) continue;
+
+    const mapping: FieldMapping = { databaseField: field.path, documentField: namer.name(field.path) };
+    const transform = transformForType(field.inferredType);
+    if (transform) mapping.transform = transform;
+    fieldMappings.push(mapping);
+  }
+
+  const config: MappingConfig = { mongoMappingType, fieldMappings };
+  if (mongoMappingType === 'array_expand') config.mongoArrayField = options.mongoArrayField;
+  if (options.sourceTableName) config.sourceTableName = options.sourceTableName;
+  return config;
+}
+
+function recordArrays(key: string, arrays: Map<string, ArrayState>): void {
+  const pattern = /\[\d+\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(key)) !== null) {
+    const fieldName = key.slice(0, match.index).replace(INDEX_PATTERN, '[]');
+    const nested = key.slice(match.index + match[0].length).replace(/^\./, '').replace(INDEX_PATTERN, '[]');
+    const state = arrays.get(fieldName) ?? { hasObjects: false, nestedFields: new Set<string>() };
+    state.hasObjects = true;
+    if (nested) state.nestedFields.add(nested);
+    arrays.set(fieldName, state);
+  }
+}
+
+function recordPrimitiveArray(path: string, value: any[], arrays: Map<string, ArrayState>): void {
+  if (!arrays.has(path)) arrays.set(path, { hasObjects: false, nestedFields: new Set<string>() });
+  if (value.some(item => typeof item === 'object' && item !== null && !isBsonValue(item))) {
+    arrays.get(path)!.hasObjects = true;
+  }
+}
+
+function transformForType(type: string): TransformRule | undefined {
+  switch (type) {
+    case 'integer':
+    case 'long':
+    case 'float':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+    case 'timestamp':
+      return { type: 'date' };
+    default:
+      return undefined;
+  }
+}
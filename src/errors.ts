@@ -2,10 +2,14 @@
  * MongoDB to 2D Table Mapping Skill - Error Handling
  */
 
+import { ConfigIssue, ProcessingError } from './types';
+
 export class MappingError extends Error {
   public readonly code: string;
   public readonly field?: string;
   public readonly documentId?: string;
+  public readonly rowIndex?: number;
+  public readonly value?: any;
   public readonly recoverable: boolean;
 
   constructor(
@@ -14,6 +18,8 @@ export class MappingError extends Error {
     options?: {
       field?: string;
       documentId?: string;
+      rowIndex?: number;
+      value?: any;
       recoverable?: boolean;
     }
   ) {
@@ -22,20 +28,22 @@ export class MappingError extends Error {
     this.code = code;
     this.field = options?.field;
     this.documentId = options?.documentId;
+    this.rowIndex = options?.rowIndex;
+    this.value = options?.value;
     this.recoverable = options?.recoverable ?? true;
   }
 }
 
 export class ValidationError extends MappingError {
-  constructor(message: string, field?: string, value?: any) {
-    super(`Validation failed: ${message}`, 'VALIDATION_ERROR', { field, recoverable: true });
+  constructor(message: string, field?: string, value?: any, context?: { documentId?: string; rowIndex?: number }) {
+    super(`Validation failed: ${message}`, 'VALIDATION_ERROR', { field, value, recoverable: true, ...context });
     this.name = 'ValidationError';
   }
 }
 
 export class TransformationError extends MappingError {
   constructor(message: string, field: string, value: any, documentId?: string) {
-    super(`Transformation failed for field "${field}": ${message}`, 'TRANSFORMATION_ERROR', { field, documentId, recoverable: true });
+    super(`Transformation failed for field "${field}": ${message}`, 'TRANSFORMATION_ERROR', { field, documentId, value, recoverable: true });
     this.name = 'TransformationError';
   }
 }
@@ -47,6 +55,17 @@ export class ConfigurationError extends MappingError {
   }
 }
 
+export class ConfigValidationError extends ConfigurationError {
+  public readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[], source?: string) {
+    const lines = issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`);
+    super(`${issues.length} problem(s) in ${source ?? 'mapping config'}:\n${lines.join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
 export class ExportError extends MappingError {
   constructor(message: string, format: string) {
     super(`Export failed (${format}): ${message}`, 'EXPORT_ERROR', { recoverable: true });
@@ -56,11 +75,26 @@ export class ExportError extends MappingError {
 
 export class ErrorCollector {
   private errors: MappingError[] = [];
+  private records: ProcessingError[] = [];
+
+  add(error: MappingError, context?: { documentId?: any; field?: string; value?: any; rowIndex?: number }): void {
+    this.errors.push(error);
+    const documentId = error.documentId ?? (context?.documentId !== undefined ? String(context.documentId) : '');
+    this.records.push({
+      documentId,
+      code: error.code,
+      field: error.field ?? context?.field,
+      rowIndex: error.rowIndex ?? context?.rowIndex,
+      value: error.value !== undefined ? error.value : context?.value,
+      message: error.message,
+      timestamp: new Date()
+    });
+  }
 
-  add(error: MappingError): void { this.errors.push(error); }
   hasErrors(): boolean { return this.errors.length > 0; }
   getErrors(): MappingError[] { return [...this.errors]; }
-  clear(): void { this.errors = []; }
+  getProcessingErrors(): ProcessingError[] { return [...this.records]; }
+  clear(): void { this.errors = []; this.records = []; }
 }
 
 export function validateMappingConfig(config: any): void {
@@ -68,8 +102,29 @@ export function validateMappingConfig(config: any): void {
   if (!config.fieldMappings || !Array.isArray(config.fieldMappings)) {
     throw new ConfigurationError('fieldMappings must be an array');
   }
-  if (config.mongoMappingType === 'array_expand' && !config.mongoArrayField) {
-    throw new ConfigurationError('mongoArrayField is required when using array_expand');
+  if (config.fieldMappings.length === 0 && !config.options?.includeAllFields && !config.derivedFields?.length) {
+    throw new ConfigurationError('fieldMappings cannot be empty unless includeAllFields is enabled or derivedFields are given');
+  }
+  if (config.derivedFields !== undefined && !Array.isArray(config.derivedFields)) {
+    throw new ConfigurationError('derivedFields must be an array');
+  }
+  if (config.mongoArrayFields !== undefined && !Array.isArray(config.mongoArrayFields)) {
+    throw new ConfigurationError('mongoArrayFields must be an array');
+  }
+  if (['array_expand', 'normalize'].includes(config.mongoMappingType) && !config.mongoArrayField && !config.mongoArrayFields?.length) {
+    throw new ConfigurationError(`mongoArrayField or mongoArrayFields is required when using ${config.mongoMappingType}`);
+  }
+  if (config.mongoMappingType === 'normalize' && config.schema) {
+    throw new ConfigurationError('schema describes a single table and is not supported with normalize');
+  }
+  if (config.mongoMappingType === 'normalize' && config.derivedFields?.length) {
+    throw new ConfigurationError('derivedFields are not supported with normalize');
+  }
+  if (config.mongoMappingType === 'aggregate' && !config.aggregation) {
+    throw new ConfigurationError('aggregation is required when using aggregate');
+  }
+  if (config.arrayExpandStrategy !== undefined && !['cartesian', 'zip'].includes(config.arrayExpandStrategy)) {
+    throw new ConfigurationError(`Unknown arrayExpandStrategy: ${config.arrayExpandStrategy}`);
   }
 }
 
@@ -2,56 +2,98 @@
  * MongoDB to 2D Table Mapping Skill - Exporters
  */
 
-import { TableData, ExportOptions } from './types';
-import { ConfigurationError } from './errors';
+import { TableData, TableColumn, TableSet, ExportOptions, CSVExportOptions, ProcessingError } from './types';
+import { ConfigurationError, ExportError } from './errors';
+import { Exporter, BaseExporter } from './base-exporter';
+import { SQLExporter } from './sql-exporter';
+import { XLSXExporter } from './xlsx-exporter';
+import { ParquetExporter } from './parquet-exporter';
 
-export interface Exporter {
-  export(data: TableData): string;
-  exportToFile(data: TableData, filePath: string): void;
-}
+export { Exporter };
 
-abstract class BaseExporter implements Exporter {
-  protected options: ExportOptions;
-  constructor(options: ExportOptions) { this.options = options; }
-  abstract export(data: TableData): string;
-  exportToFile(data: TableData, filePath: string): void {
-    const content = this.export(data);
-    require('fs').writeFileSync(filePath, content, this.options.encoding || 'utf-8');
-  }
-  protected formatValue(value: any): string {
-    if (value === null || value === undefined) return '';
-    if (typeof value === 'boolean') return value ? 'true' : 'false';
-    if (typeof value === 'number') return String(value);
-    if (value instanceof Date) return value.toISOString();
-    if (Array.isArray(value) || typeof value === 'object') return JSON.stringify(value);
-    return String(value);
-  }
-}
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const BOM_ENCODINGS = ['utf8', 'utf-8', 'utf16le', 'utf-16le', 'ucs2', 'ucs-2'];
 
+/**
+ * Writes delimited text in the dialect given by `options.csv`. The defaults
+ * quote every field with `"`, separate fields with `,` and end lines with `\n`.
+ */
 export class CSVExporter extends BaseExporter {
-  private separator = ',';
-  private quoteCharacter = '"';
+  private delimiter: string;
+  private quote: string;
+  private escape: string;
+  private quoting: NonNullable<CSVExportOptions['quoting']>;
+  readonly lineEnding: string;
+
+  constructor(options: ExportOptions) {
+    super(options);
+    const csv = options.csv || {};
+    this.delimiter = csv.delimiter ?? ',';
+    this.quote = csv.quote ?? '"';
+    this.escape = csv.escape ?? this.quote;
+    this.quoting = csv.quoting ?? 'all';
+    this.lineEnding = csv.lineEnding ?? '\n';
+
+    if (this.delimiter === '' || /[\r\n]/.test(this.delimiter) || this.delimiter.includes(this.quote)) {
+      throw new ConfigurationError('csv.delimiter must be non-empty and cannot contain the quote character or line breaks');
+    }
+    if (this.quote.length !== 1 || this.escape.length !== 1) throw new ConfigurationError('csv.quote and csv.escape must be single characters');
+    if (!['all', 'minimal', 'none'].includes(this.quoting)) throw new ConfigurationError(`Unknown csv.quoting: ${this.quoting}`);
+    if (!['\n', '\r\n'].includes(this.lineEnding)) throw new ConfigurationError('csv.lineEnding must be "\\n" or "\\r\\n"');
+    if (options.encoding && !Buffer.isEncoding(options.encoding)) throw new ConfigurationError(`Unknown encoding: ${options.encoding}`);
+    if (csv.bom && !BOM_ENCODINGS.includes((options.encoding || 'utf-8').toLowerCase())) {
+      throw new ConfigurationError(`csv.bom requires a UTF-8 or UTF-16 encoding, not ${options.encoding}`);
+    }
+  }
+
+  /** Byte order mark to write before the first line, if enabled. */
+  get preamble(): string {
+    return this.options.csv?.bom ? '\uFEFF' : '';
+  }
 
   export(data: TableData): string {
     if (data.rows.length === 0) return '';
     const lines: string[] = [];
     if (this.options.headers !== false) {
-      lines.push(data.columns.map(col => this.quoteCharacter + col.name + this.quoteCharacter).join(this.separator));
+      lines.push(this.formatHeaderLine(data.columns));
     }
     for (const row of data.rows) {
-      const values = data.columns.map(col => this.formatCSVValue(row[col.name]));
-      lines.push(values.join(this.separator));
+      lines.push(this.formatRowLine(row, data.columns));
     }
-    return lines.join('\n');
+    return this.preamble + lines.join(this.lineEnding);
+  }
+
+  formatHeaderLine(columns: TableColumn[]): string {
+    return columns.map(col => this.formatField(col.name)).join(this.delimiter);
+  }
+
+  formatRowLine(row: Record<string, any>, columns: TableColumn[]): string {
+    return columns.map(col => this.formatCSVValue(row[col.name])).join(this.delimiter);
   }
 
   private formatCSVValue(value: any): string {
+    if ((value === null || value === undefined) && this.quoting !== 'all') return '';
     const formatted = this.formatValue(value);
-    const needsQuoting = formatted.includes(this.separator) || formatted.includes(this.quoteCharacter) || formatted.includes('\n');
-    if (needsQuoting) {
-      return this.quoteCharacter + formatted.replace(new RegExp(this.quoteCharacter, 'g'), this.quoteCharacter + this.quoteCharacter) + this.quoteCharacter;
+    const protect = this.options.csv?.escapeFormulas && typeof value === 'string' && FORMULA_PREFIX.test(formatted);
+    return this.formatField(protect ? "'" + formatted : formatted);
+  }
+
+  private formatField(text: string): string {
+    const special = text.includes(this.delimiter) || text.includes(this.quote) || text.includes(this.escape) || /[\r\n]/.test(text);
+    if (this.quoting === 'none') {
+      if (!special) return text;
+      if (this.escape === this.quote) {
+        throw new ExportError(`${JSON.stringify(text)} contains a delimiter, quote or line break; set csv.escape or enable quoting`, 'csv');
+      }
+      return [this.escape, this.delimiter, this.quote, '\r', '\n']
+        .reduce((escaped, char) => escaped.split(char).join(this.escape + char), text);
     }
-    return formatted;
+    if (this.quoting === 'minimal' && !special) return text;
+
+    const escaped = this.escape === this.quote
+      ? text.split(this.quote).join(this.quote + this.quote)
+      : text.split(this.escape).join(this.escape + this.escape).split(this.quote).join(this.escape + this.quote);
+    return this.quote + escaped + this.quote;
   }
 }
 
@@ -67,13 +109,18 @@ export class JSONExporter extends BaseExporter {
 export class ArrayExporter extends BaseExporter {
   export(data: TableData): string {
     if (data.rows.length === 0) return JSON.stringify([]);
+    const rows = data.rows.map(row => this.toArrayRow(row, data.columns));
     if (this.options.headers === false) {
-      return JSON.stringify(data.rows.map(row => Object.values(row)), null, 2);
+      return JSON.stringify(rows, null, 2);
     }
     const columnNames = data.columns.map(col => col.name);
-    const rows = data.rows.map(row => Object.values(row));
     return JSON.stringify([columnNames, ...rows], null, 2);
   }
+
+  toArrayRow(row: Record<string, any>, columns: TableColumn[]): any[] {
+    if (columns.length === 0) return Object.values(row);
+    return columns.map(col => row[col.name] ?? null);
+  }
 }
 
 export function createExporter(options: ExportOptions): Exporter {
@@ -81,10 +128,75 @@ export function createExporter(options: ExportOptions): Exporter {
     case 'csv': return new CSVExporter(options);
     case 'json': return new JSONExporter(options);
     case 'array': return new ArrayExporter(options);
+    case 'sql': return new SQLExporter(options);
+    case 'xlsx': return new XLSXExporter(options);
+    case 'parquet': return new ParquetExporter(options);
     default: throw new ConfigurationError(`Unknown export format: ${options.format}`);
   }
 }
 
+const FILE_EXTENSIONS: Record<string, string> = { csv: 'csv', json: 'json', array: 'json', sql: 'sql', xlsx: 'xlsx', parquet: 'parquet' };
+
+export function exportTables(tables: TableSet, options: ExportOptions): Record<string, string> {
+  const exporter = createExporter(options);
+  const result: Record<string, string> = {};
+  for (const [name, data] of Object.entries(tables)) result[name] = exporter.export(data);
+  return result;
+}
+
+/**
+ * Writes each table to `<directory>/<table name>.<ext>` and returns the file paths.
+ */
+export function exportTablesToFiles(tables: TableSet, directory: string, options: ExportOptions): string[] {
+  const path = require('path');
+  require('fs').mkdirSync(directory, { recursive: true });
+  const exporter = createExporter(options);
+  const extension = FILE_EXTENSIONS[options.format] || options.format;
+
+  return Object.entries(tables).map(([name, data]) => {
+    const filePath = path.join(directory, `${name}.${extension}`);
+    exporter.exportToFile(data, filePath);
+    return filePath;
+  });
+}
+
+export type RejectsFormat = 'csv' | 'json';
+
+const REJECT_COLUMNS: TableColumn[] = [
+  { name: 'documentId', type: 'string', required: true },
+  { name: 'rowIndex', type: 'integer', required: false },
+  { name: 'field', type: 'string', required: false },
+  { name: 'code', type: 'string', required: true },
+  { name: 'message', type: 'string', required: true },
+  { name: 'value', type: 'string', required: false },
+  { name: 'timestamp', type: 'date', required: true }
+];
+
+/**
+ * Exports processing errors as a rejects file so that dropped rows can be audited.
+ */
+export function exportRejects(errors: ProcessingError[], format: RejectsFormat = 'csv'): string {
+  const rows = errors.map(error => ({
+    documentId: error.documentId,
+    rowIndex: error.rowIndex ?? null,
+    field: error.field ?? null,
+    code: error.code,
+    message: error.message,
+    value: error.value === undefined ? null : error.value,
+    timestamp: error.timestamp.toISOString()
+  }));
+  const data: TableData = {
+    columns: REJECT_COLUMNS,
+    rows,
+    metadata: { totalRows: rows.length, totalColumns: REJECT_COLUMNS.length, mappingType: 'flatten', sourceCollection: 'rejects', generatedAt: new Date().toISOString() }
+  };
+  return format === 'json' ? JSON.stringify(rows, null, 2) : createExporter({ format: 'csv' }).export(data);
+}
+
+export function exportRejectsToFile(errors: ProcessingError[], filePath: string, format: RejectsFormat = 'csv'): void {
+  require('fs').writeFileSync(filePath, exportRejects(errors, format), 'utf-8');
+}
+
 export function exportToCSV(data: TableData, options?: Partial<ExportOptions>): string {
   return createExporter({ format: 'csv', headers: true, encoding: 'utf-8', ...options }).export(data);
 }
@@ -96,3 +208,20 @@ export function exportToJSON(data: TableData, options?: Partial<ExportOptions>):
 export function exportToArray(data: TableData, options?: Partial<ExportOptions>): string {
   return createExporter({ format: 'array', headers: true, encoding: 'utf-8', ...options }).export(data);
 }
+
+export function exportToSQL(data: TableData, options?: Partial<ExportOptions>): string {
+  return createExporter({ format: 'sql', encoding: 'utf-8', ...options }).export(data);
+}
+
+export function exportToXLSX(data: TableData, options?: Partial<ExportOptions>): Buffer {
+  return new XLSXExporter({ format: 'xlsx', headers: true, ...options }).exportBuffer(data);
+}
+
+/** Writes every table to its own sheet of a single workbook, named after its key. */
+export function exportTablesToXLSX(tables: TableSet, options?: Partial<ExportOptions>): Buffer {
+  return new XLSXExporter({ format: 'xlsx', headers: true, ...options }).exportWorkbook(tables);
+}
+
+export function exportToParquet(data: TableData, options?: Partial<ExportOptions>): Buffer {
+  return new ParquetExporter({ format: 'parquet', ...options }).exportBuffer(data);
+}
@@ -0,0 +1,359 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Derived Column Expressions
+ */
+
+import { DerivedField } from './types';
+import { ConfigurationError, TransformationError } from './errors';
+import { bsonToScalar, getBsonType } from './bson';
+import { transformValue } from './transformers';
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'field'; path: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; then: Node; otherwise: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'op' | 'end';
+  value: string;
+  position: number;
+}
+
+export interface CompiledExpression {
+  source: string;
+  /** Field paths the expression reads, in order of first use. */
+  fields: string[];
+  evaluate(resolve: (path: string) => any): any;
+}
+
+export interface CompiledDerivedField extends DerivedField {
+  compiled: CompiledExpression;
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: any[]) => any }> = {
+  concat: { arity: [1, Infinity], fn: (...args) => args.map(arg => (arg === null || arg === undefined ? '' : toText(arg))).join('') },
+  coalesce: { arity: [1, Infinity], fn: (...args) => args.find(arg => arg !== null && arg !== undefined && arg !== '') ?? null },
+  upper: { arity: [1, 1], fn: value => (value === null ? null : toText(value).toUpperCase()) },
+  lower: { arity: [1, 1], fn: value => (value === null ? null : toText(value).toLowerCase()) },
+  trim: { arity: [1, 1], fn: value => (value === null ? null : toText(value).trim()) },
+  length: { arity: [1, 1], fn: value => (value === null ? null : Array.isArray(value) ? value.length : toText(value).length) },
+  contains: { arity: [2, 2], fn: (value, search) => value !== null && toText(value).includes(toText(search)) },
+  number: { arity: [1, 1], fn: value => (value === null || value === '' ? null : toNumber(value, 'number()')) },
+  string: { arity: [1, 1], fn: value => (value === null ? null : toText(value)) },
+  round: {
+    arity: [1, 2],
+    fn: (value, decimals = 0) => {
+      if (value === null) return null;
+      const factor = Math.pow(10, toNumber(decimals, 'round()'));
+      return Math.round(toNumber(value, 'round()') * factor) / factor;
+    }
+  },
+  floor: { arity: [1, 1], fn: value => (value === null ? null : Math.floor(toNumber(value, 'floor()'))) },
+  ceil: { arity: [1, 1], fn: value => (value === null ? null : Math.ceil(toNumber(value, 'ceil()'))) },
+  abs: { arity: [1, 1], fn: value => (value === null ? null : Math.abs(toNumber(value, 'abs()'))) },
+  min: { arity: [1, Infinity], fn: (...args) => numericArgs(args, 'min()', Math.min) },
+  max: { arity: [1, Infinity], fn: (...args) => numericArgs(args, 'max()', Math.max) }
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+/**
+ * Parses an expression such as `price * qty`, `concat(first, ' ', last)` or
+ * `qty > 0 ? 'open' : 'closed'`. Field references are flattened paths
+ * (`user.name`, `items[].qty`); names that need other characters go in backticks.
+ * Nothing is evaluated with `eval` or `Function`.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const parser = new Parser(tokenize(source), source);
+  const ast = parser.parseExpression();
+  parser.expectEnd();
+  const fields: string[] = [];
+  collectFields(ast, fields);
+  return { source, fields, evaluate: resolve => evaluate(ast, resolve) };
+}
+
+export function compileDerivedFields(derivedFields: DerivedField[] = []): CompiledDerivedField[] {
+  return derivedFields.map((field, i) => {
+    if (!field?.name) throw new ConfigurationError(`derivedFields[${i}] must have a name`);
+    if (typeof field.expression !== 'string') throw new ConfigurationError(`derived field "${field.name}" must have an expression`);
+    return { ...field, compiled: compileExpression(field.expression) };
+  });
+}
+
+/**
+ * Evaluates derived fields against a flattened document and adds them to `row`.
+ * A derived field may also reference derived fields declared before it.
+ */
+export function applyDerivedFields(
+  flattenedDoc: Record<string, any>,
+  row: Record<string, any>,
+  derivedFields: CompiledDerivedField[],
+  options: { documentId?: string; nullValue?: string } = {}
+): Record<string, any> {
+  const computed: Record<string, any> = {};
+  const has = (record: Record<string, any>, path: string) => Object.prototype.hasOwnProperty.call(record, path);
+  const resolve = (path: string) => (has(computed, path) ? computed[path] : has(flattenedDoc, path) ? toExpressionValue(flattenedDoc[path]) : undefined);
+
+  for (const field of derivedFields) {
+    let value: any;
+    try {
+      value = field.compiled.evaluate(resolve);
+    } catch (error) {
+      if (error instanceof TransformationError) throw error;
+      throw new TransformationError(`${(error as Error).message} in "${field.expression}"`, field.name, undefined, options.documentId);
+    }
+    if (field.transform) {
+      value = transformValue(value, field.transform, { fieldPath: field.name, documentId: options.documentId, document: flattenedDoc });
+    }
+    computed[field.name] = value;
+    row[field.name] = value === null || value === undefined ? options.nullValue ?? null : value;
+  }
+  return row;
+}
+
+function toExpressionValue(value: any): any {
+  const bsonType = getBsonType(value);
+  if (!bsonType) return value;
+  const scalar = bsonToScalar(value);
+  return bsonType === 'decimal' || bsonType === 'long' ? Number(scalar) : scalar;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '"' || char === "'" || char === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw syntaxError(source, i, 'unterminated string');
+      tokens.push({ type: char === '`' ? 'name' : 'string', value, position: i });
+      i = j + 1;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*(?:\.[\w$]+|\[\d*\])*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) throw syntaxError(source, i, `unexpected character "${char}"`);
+      tokens.push({ type: 'op', value: op, position: i });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parseExpression(): Node {
+    const test = this.parseBinary(0);
+    if (!this.accept('?')) return test;
+    const then = this.parseExpression();
+    this.expect(':');
+    return { kind: 'conditional', test, then, otherwise: this.parseExpression() };
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') throw syntaxError(this.source, token.position, `unexpected "${token.value}"`);
+  }
+
+  private parseBinary(level: number): Node {
+    if (level === BINARY_LEVELS.length) return this.parseUnary();
+    let left = this.parseBinary(level + 1);
+    let token = this.peek();
+    while (token.type === 'op' && BINARY_LEVELS[level].includes(token.value)) {
+      this.index++;
+      left = { kind: 'binary', op: token.value, left, right: this.parseBinary(level + 1) };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.accept('!')) return { kind: 'unary', op: '!', operand: this.parseUnary() };
+    if (this.accept('-')) return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.index++];
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'name': {
+        if (this.source[token.position] !== '`') {
+          if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+          if (token.value === 'null') return { kind: 'literal', value: null };
+          if (this.accept('(')) return this.parseCall(token);
+        }
+        return { kind: 'field', path: token.value };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expect(')');
+          return inner;
+        }
+        throw syntaxError(this.source, token.position, `unexpected "${token.value}"`);
+      default:
+        throw syntaxError(this.source, token.position, 'unexpected end of expression');
+    }
+  }
+
+  private parseCall(token: Token): Node {
+    const fn = FUNCTIONS[token.value];
+    if (!fn) throw syntaxError(this.source, token.position, `unknown function "${token.value}"`);
+    const args: Node[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.accept(','));
+      this.expect(')');
+    }
+    const [minArgs, maxArgs] = fn.arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw syntaxError(this.source, token.position, `${token.value}() takes ${minArgs === maxArgs ? minArgs : `${minArgs}${maxArgs === Infinity ? ' or more' : `-${maxArgs}`}`} argument(s)`);
+    }
+    return { kind: 'call', name: token.value, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(op: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.value === op) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(op: string): void {
+    if (!this.accept(op)) {
+      const token = this.peek();
+      throw syntaxError(this.source, token.position, `expected "${op}"${token.type === 'end' ? ' before end of expression' : ` but found "${token.value}"`}`);
+    }
+  }
+}
+
+function evaluate(node: Node, resolve: (path: string) => any): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const value = resolve(node.path);
+      return value === undefined ? null : value;
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand, resolve);
+      if (node.op === '!') return !operand;
+      return operand === null ? null : -toNumber(operand, '-');
+    }
+    case 'conditional':
+      return evaluate(node.test, resolve) ? evaluate(node.then, resolve) : evaluate(node.otherwise, resolve);
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map(arg => evaluate(arg, resolve)));
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, resolve);
+  }
+}
+
+function evaluateBinary(op: string, leftNode: Node, rightNode: Node, resolve: (path: string) => any): any {
+  const left = evaluate(leftNode, resolve);
+  if (op === '&&') return left ? evaluate(rightNode, resolve) : left;
+  if (op === '||') return left ? left : evaluate(rightNode, resolve);
+
+  const right = evaluate(rightNode, resolve);
+  switch (op) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+    case '<': case '<=': case '>': case '>=': {
+      if (left === null || right === null) return false;
+      const bothNumeric = typeof left === 'number' && typeof right === 'number';
+      const a = bothNumeric ? left : toText(left);
+      const b = bothNumeric ? right : toText(right);
+      return op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : a >= b;
+    }
+  }
+
+  if (left === null || right === null) return null;
+  if (op === '+' && (typeof left === 'string' || typeof right === 'string')) return toText(left) + toText(right);
+  const a = toNumber(left, op);
+  const b = toNumber(right, op);
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/':
+      if (b === 0) throw new Error('division by zero');
+      return a / b;
+    default:
+      if (b === 0) throw new Error('division by zero');
+      return a % b;
+  }
+}
+
+function collectFields(node: Node, fields: string[]): void {
+  switch (node.kind) {
+    case 'field':
+      if (!fields.includes(node.path)) fields.push(node.path);
+      break;
+    case 'unary':
+      collectFields(node.operand, fields);
+      break;
+    case 'binary':
+      collectFields(node.left, fields);
+      collectFields(node.right, fields);
+      break;
+    case 'conditional':
+      [node.test, node.then, node.otherwise].forEach(child => collectFields(child, fields));
+      break;
+    case 'call':
+      node.args.forEach(arg => collectFields(arg, fields));
+      break;
+  }
+}
+
+function toText(value: any): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: any, operator: string): number {
+  const num = typeof value === 'number' ? value : typeof value === 'boolean' ? NaN : Number(value);
+  if ((typeof value === 'string' && value.trim() === '') || isNaN(num)) {
+    throw new Error(`cannot apply ${operator} to ${JSON.stringify(value)}`);
+  }
+  return num;
+}
+
+function numericArgs(args: any[], name: string, fn: (...values: number[]) => number): number | null {
+  const values = args.filter(arg => arg !== null && arg !== undefined).map(arg => toNumber(arg, name));
+  return values.length ? fn(...values) : null;
+}
+
+function syntaxError(source: string, position: number, message: string): ConfigurationError {
+  return new ConfigurationError(`invalid expression "${source}": ${message} at position ${position}`);
+}
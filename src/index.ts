@@ -4,18 +4,42 @@
 
 export * from './types';
 export * from './errors';
+export * from './bson';
 export * from './transformers';
+export * from './transformer-registry';
+export * from './expressions';
+export * from './query';
+export * from './aggregate';
+export * from './reshape';
+export * from './columns';
+export * from './naming';
+export * from './schema';
+export * from './redaction';
+export * from './discovery';
+export * from './config-schema';
+export * from './config-loader';
+export * from './array-expand';
+export * from './array-policy';
+export * from './normalize';
 export * from './mapper';
+export * from './parallel';
 export * from './exporters';
+export * from './sql-exporter';
+export * from './xlsx-exporter';
+export * from './parquet-exporter';
+export * from './csv-parser';
+export * from './reverse-mapper';
+export * from './stream-exporters';
+export * from './checkpoint';
 
 import { MongoDBToTableMapper, createMapper, mapMongoDBToTable } from './mapper';
-import { TableData, MappingConfig, MongoDBDocument, ExportOptions } from './types';
-import { exportToCSV, exportToJSON, exportToArray } from './exporters';
+import { TableData, MappingConfig, MongoDBDocument, ExportOptions, TransformRule } from './types';
+import { exportToCSV, exportToJSON, exportToArray, exportToSQL, exportToXLSX, exportToParquet } from './exporters';
 
 export interface QuickMappingOptions {
   mongoMappingType?: 'flatten' | 'array_expand';
   mongoArrayField?: string;
-  fieldMappings?: Array<{ databaseField: string; documentField: string; transform?: { type: string; format?: string } }>;
+  fieldMappings?: Array<{ databaseField: string; documentField: string; transform?: Pick<TransformRule, 'type' | 'format'> }>;
   includeAllFields?: boolean;
   excludeFields?: string[];
   nullValue?: string;
@@ -37,11 +61,14 @@ export function quickMap(documents: MongoDBDocument[], options?: QuickMappingOpt
   return mapMongoDBToTable(documents, config);
 }
 
-export function quickExport(data: TableData, format: 'csv' | 'json' | 'array', options?: Partial<ExportOptions>): string {
+export function quickExport(data: TableData, format: ExportOptions['format'], options?: Partial<ExportOptions>): string {
   switch (format) {
     case 'csv': return exportToCSV(data, options);
     case 'json': return exportToJSON(data, options);
     case 'array': return exportToArray(data, options);
+    case 'sql': return exportToSQL(data, options);
+    case 'xlsx': return exportToXLSX(data, options).toString('base64');
+    case 'parquet': return exportToParquet(data, options).toString('base64');
     default: throw new Error(`Unknown format: ${format}`);
   }
 }
@@ -3,131 +3,458 @@
  */
 
 import {
-  MongoDBDocument, MappingConfig, TableData, TableColumn,
-  MongoDBMappingType, MappingOptions, ExportOptions
+  MongoDBDocument, MappingConfig, TableData, TableColumn, TableSet, FieldMapping,
+  MappingOptions, ExportOptions, StreamMappingOptions, ParallelMappingOptions, RowBatch, ProcessingStats, ProcessingError
 } from './types';
 import {
-  MappingError, ValidationError, ConfigurationError, ErrorCollector,
+  MappingError, ConfigurationError, ConfigValidationError, ErrorCollector,
   validateMappingConfig, validateInputData
 } from './errors';
-import { transformObject, flattenObject, getNestedValue, inferColumnType } from './transformers';
-import { Exporter, CSVExporter, JSONExporter, ArrayExporter } from './exporters';
+import { validateTransformRules } from './transformer-registry';
+import { CompiledDerivedField, compileDerivedFields, applyDerivedFields } from './expressions';
+import { transformObject, flattenObject, normalizeRowValues } from './transformers';
+import { ColumnTracker } from './columns';
+import { ArrayPathNode, parseArrayPaths, expandDocumentArrays, toElementDocument } from './array-expand';
+import { validateQuery, matchesQuery } from './query';
+import { GroupAggregator, validateAggregation } from './aggregate';
+import { NormalizedTableDefinition, ROOT_ID_COLUMN, buildNormalizedTables, splitDocument, routeFieldMappings } from './normalize';
+import { validateTableSchema, validateRow, projectRow, schemaToColumns } from './schema';
+import { bsonToScalar } from './bson';
+import { Redactor, detectPii } from './redaction';
+import { ColumnNamer, validateColumnNaming } from './naming';
+import { validateArrayPolicies } from './array-policy';
+import { createExporter, exportRejects, RejectsFormat } from './exporters';
+import {
+  MappedShard, ShardCounters, DEFAULT_PARALLEL_CHUNK_SIZE, assertTransferableConfig, mapShards, splitIntoChunks,
+  serializeError, restoreError
+} from './parallel';
 
 export class MongoDBToTableMapper {
   private config: MappingConfig;
   private errorCollector: ErrorCollector;
+  private arrayPaths: ArrayPathNode[];
+  private derivedFields: CompiledDerivedField[];
+  private redactor?: Redactor;
+  private namer?: ColumnNamer;
+  private rowCounter = 0;
+  private run: RunCounters = createRunCounters();
 
   constructor(config: MappingConfig) {
     validateMappingConfig(config);
+    if (config.schema) validateTableSchema(config.schema);
+    if (config.filter !== undefined) validateQuery(config.filter);
+    if (config.mongoMappingType === 'aggregate') validateAggregation(config.aggregation);
+    const transformIssues = [
+      ...validateTransformRules(config.fieldMappings),
+      ...validateTransformRules(config.derivedFields, 'derivedFields')
+    ];
+    if (transformIssues.length > 0) throw new ConfigValidationError(transformIssues);
     this.config = config;
     this.errorCollector = new ErrorCollector();
+    this.arrayPaths = parseArrayPaths(config.mongoArrayFields ?? (config.mongoArrayField ? [config.mongoArrayField] : []));
+    if (config.mongoMappingType === 'normalize') buildNormalizedTables(config.sourceTableName || 'root', this.arrayPaths);
+    this.derivedFields = compileDerivedFields(config.derivedFields);
+    if (config.redaction) this.redactor = new Redactor(config.redaction);
+    if (config.options?.columnNaming) validateColumnNaming(config.options.columnNaming);
+    validateArrayPolicies(config.options?.arrayPolicies);
   }
 
   public map(documents: MongoDBDocument[]): TableData {
+    this.assertSingleTableMode();
     validateInputData(documents);
-    this.errorCollector.clear();
+    this.startRun();
 
-    if (this.config.mongoMappingType === 'array_expand') {
-      return this.mapWithArrayExpand(documents);
+    const aggregator = this.createAggregator();
+    const tracker = new ColumnTracker();
+    const rows: Record<string, any>[] = [];
+    for (const doc of documents) {
+      for (const row of this.mapDocument(doc)) {
+        if (aggregator) {
+          aggregator.add(row);
+          continue;
+        }
+        tracker.observe(row);
+        rows.push(normalizeRowValues(row));
+      }
     }
-    return this.mapWithFlatten(documents);
+    this.finishRun();
+    if (aggregator) return this.createAggregateTable(aggregator);
+    const columns = this.nameColumns(this.resolveColumns(tracker));
+    return this.createTableData(this.renameRows(rows), columns);
   }
 
-  private mapWithFlatten(documents: MongoDBDocument[]): TableData {
+  /**
+   * Maps documents like map(), in chunks spread over worker threads. Rows keep the
+   * input order, and columns, errors and stats are merged as if the documents had
+   * been mapped in one pass. Functions cannot be sent to workers, so custom
+   * transforms must be registered by name in one of `options.modules`.
+   */
+  public async mapParallel(documents: MongoDBDocument[], options: ParallelMappingOptions = {}): Promise<TableData> {
+    this.assertSingleTableMode();
+    if (this.config.mongoMappingType === 'aggregate') throw new ConfigurationError('mapParallel does not support aggregate mode; use map() instead');
+    const chunkSize = options.chunkSize ?? DEFAULT_PARALLEL_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) throw new ConfigurationError('chunkSize must be a positive integer');
+    if (options.workers !== undefined && (!Number.isInteger(options.workers) || options.workers < 1)) {
+      throw new ConfigurationError('workers must be a positive integer');
+    }
+    assertTransferableConfig(this.config);
+    validateInputData(documents);
+    this.startRun();
+
+    const shards = await mapShards(this.config, splitIntoChunks(documents, chunkSize), options);
+    const tracker = new ColumnTracker();
     const rows: Record<string, any>[] = [];
-    const options = this.config.options || {};
+    for (const shard of shards) {
+      for (const key of Object.keys(shard.counters) as (keyof ShardCounters)[]) this.run[key] += shard.counters[key];
+      for (const { error, record } of shard.errors) {
+        const rowIndex = record.rowIndex === undefined ? undefined : record.rowIndex + this.rowCounter;
+        this.errorCollector.add(restoreError(error, this.rowCounter) as MappingError, { ...record, rowIndex });
+      }
+      this.rowCounter += shard.rowCount;
+      if (shard.redaction) this.redactor?.merge(shard.redaction.fields, shard.redaction.tokens);
+      tracker.merge(ColumnTracker.fromSnapshot(shard.columns));
+      for (const row of shard.rows) rows.push(row);
+    }
+    this.finishRun();
+    const columns = this.nameColumns(this.resolveColumns(tracker));
+    return this.createTableData(this.renameRows(rows), columns);
+  }
 
+  /** Maps one chunk inside a mapParallel worker, keeping the column state unresolved so chunks can be merged. */
+  public mapShard(documents: MongoDBDocument[]): MappedShard {
+    this.startRun();
+    const tracker = new ColumnTracker();
+    const rows: Record<string, any>[] = [];
     for (const doc of documents) {
-      try {
-        const flattened = this.flattenDocument(doc, options);
-        const mappedRow = this.applyFieldMappings(flattened);
-        rows.push(mappedRow);
-      } catch (error) {
-        this.handleMappingError(error, doc._id);
-        if (!options.skipInvalidRows) throw error;
+      for (const row of this.mapDocument(doc)) {
+        tracker.observe(row);
+        rows.push(normalizeRowValues(row));
       }
     }
+    const { startedAt, finishedAt, ...counters } = this.run;
+    const records = this.errorCollector.getProcessingErrors();
+    return {
+      rows,
+      columns: tracker.snapshot(),
+      counters,
+      rowCount: this.rowCounter,
+      redaction: this.redactor && { fields: this.redactor.getRedactedFields(), tokens: this.redactor.getTokens() },
+      errors: this.errorCollector.getErrors().map((error, i) => ({ error: serializeError(error), record: records[i] }))
+    };
+  }
+
+  /**
+   * Maps documents from any (async) iterable, such as a MongoDB cursor, and yields
+   * rows in batches so that memory stays bounded by the batch size. Columns are
+   * inferred incrementally unless a schema is supplied via `options.columns`.
+   * In aggregate mode the groups are yielded as a single batch at the end.
+   */
+  public async *mapStream(
+    source: AsyncIterable<MongoDBDocument> | Iterable<MongoDBDocument>,
+    options: StreamMappingOptions = {}
+  ): AsyncGenerator<RowBatch, void, undefined> {
+    this.assertSingleTableMode();
+    this.startRun();
+    const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : 1000;
+    const aggregator = this.createAggregator();
+    const tracker = new ColumnTracker();
+    let rows: Record<string, any>[] = [];
+    let documentsProcessed = 0;
+    if (this.namer && options.columns) this.reserveColumnNames(options.columns);
 
-    return this.createTableData(rows, 'flatten');
+    for await (const doc of source) {
+      documentsProcessed++;
+      for (const row of this.mapDocument(doc)) {
+        if (aggregator) {
+          aggregator.add(row);
+          continue;
+        }
+        tracker.observe(row);
+        rows.push(normalizeRowValues(row));
+      }
+      if (rows.length >= batchSize) {
+        const columns = options.columns ?? this.nameColumns(this.resolveColumns(tracker));
+        yield { rows: this.renameRows(rows), columns, documentsProcessed };
+        rows = [];
+      }
+    }
+
+    this.finishRun();
+    if (aggregator) {
+      const result = aggregator.getResult();
+      const columns = this.nameColumns(result.columns);
+      if (result.rows.length > 0) yield { rows: this.renameRows(result.rows), columns, documentsProcessed };
+      return;
+    }
+    if (rows.length > 0) {
+      const columns = options.columns ?? this.nameColumns(this.resolveColumns(tracker));
+      yield { rows: this.renameRows(rows), columns, documentsProcessed };
+    }
   }
 
-  private mapWithArrayExpand(documents: MongoDBDocument[]): TableData {
+  /**
+   * Collects the output of {@link mapStream} into a single TableData. Convenient for
+   * async sources that are known to fit in memory.
+   */
+  public async mapAsyncIterable(
+    source: AsyncIterable<MongoDBDocument> | Iterable<MongoDBDocument>,
+    options: StreamMappingOptions = {}
+  ): Promise<TableData> {
     const rows: Record<string, any>[] = [];
+    let columns: TableColumn[] = options.columns ?? [];
+    for await (const batch of this.mapStream(source, options)) {
+      for (const row of batch.rows) rows.push(row);
+      columns = batch.columns;
+    }
+    return this.createTableData(rows, columns);
+  }
+
+  /**
+   * Splits each document into a parent table plus one child table per array path.
+   * Child rows reference the parent through `_root_id` and one `_<array>_index`
+   * column per enclosing array. Tables without field mappings keep all fields.
+   */
+  public mapNormalized(documents: MongoDBDocument[]): TableSet {
+    validateInputData(documents);
+    this.startRun();
     const options = this.config.options || {};
-    const arrayField = this.config.mongoArrayField!;
-    const normalizedArrayField = arrayField.endsWith('[]') ? arrayField.slice(0, -2) : arrayField;
+    const definitions = buildNormalizedTables(this.config.sourceTableName || 'root', this.arrayPaths);
+    const mappings = routeFieldMappings(this.config.fieldMappings, definitions);
+    const trackers = definitions.map(() => new ColumnTracker());
+    const rows: Record<string, any>[][] = definitions.map(() => []);
 
     for (const doc of documents) {
+      this.run.documents++;
+      if (!this.matchesFilter(doc)) continue;
       try {
-        const arrayValue = getNestedValue(doc, normalizedArrayField);
-        
-        if (!arrayValue || !Array.isArray(arrayValue)) {
-          if (options.skipInvalidRows) continue;
-          throw new ValidationError(`Document does not contain array field: ${arrayField}`, arrayField, doc);
-        }
-
-        for (const arrayElement of arrayValue) {
-          const expandedDoc = this.createExpandedDocument(doc, normalizedArrayField, arrayElement);
-          const flattened = this.flattenDocument(expandedDoc, options);
-          const mappedRow = this.applyFieldMappings(flattened);
-          rows.push(mappedRow);
-        }
+        const records = splitDocument(this.redactor ? this.redactor.redact(doc) : doc, this.arrayPaths);
+        const mapped = definitions.map(definition =>
+          (records.get(definition.path) || []).map(record => this.mapNormalizedRecord(record, definition, mappings.get(definition.path)!, options))
+        );
+        mapped.forEach((tableRows, i) => {
+          for (const row of tableRows) {
+            trackers[i].observe(row);
+            rows[i].push(normalizeRowValues(row));
+          }
+          this.run.rows += tableRows.length;
+        });
       } catch (error) {
         this.handleMappingError(error, doc._id);
         if (!options.skipInvalidRows) throw error;
+        this.run.skippedDocuments++;
+      }
+    }
+    this.finishRun();
+
+    const tables: TableSet = {};
+    definitions.forEach((definition, i) => {
+      const namer = options.columnNaming ? new ColumnNamer(options.columnNaming) : undefined;
+      const columns = this.nameColumns(trackers[i].getColumns(), namer);
+      const table = this.createTableData(this.renameRows(rows[i], namer), columns);
+      const foreignKeys = namer ? definition.foreignKeys.map(key => namer.name(key)) : definition.foreignKeys;
+      table.metadata = { ...table.metadata, tableName: definition.name, parentTable: definition.parentTable, foreignKeys };
+      tables[definition.name] = table;
+    });
+    return tables;
+  }
+
+  private mapNormalizedRecord(
+    record: Record<string, any>,
+    definition: NormalizedTableDefinition,
+    mappings: FieldMapping[],
+    options: MappingOptions
+  ): Record<string, any> {
+    const flattened = this.flattenDocument(record, options);
+    if (options.includeAllFields || mappings.length === 0) return flattened;
+
+    const row: Record<string, any> = {};
+    if (definition.path === '' && !mappings.some(mapping => mapping.databaseField === '_id')) row._id = record._id;
+    for (const key of definition.foreignKeys) row[key] = record[key];
+    return Object.assign(row, transformObject(flattened, mappings, {
+      nullValue: options.nullValue,
+      dateFormat: options.dateFormat,
+      documentId: formatDocumentId(record._id ?? record[ROOT_ID_COLUMN])
+    }));
+  }
+
+  /**
+   * Columns that follow from the config before any document is mapped: the
+   * schema's, the aggregation's, or those of the field mappings and derived
+   * fields. Empty when the columns depend on the documents, as with includeAllFields.
+   */
+  public getDeclaredColumns(): TableColumn[] {
+    const config = this.config;
+    const naming = config.options?.columnNaming;
+    const namer = naming ? new ColumnNamer(naming) : undefined;
+    if (config.schema) return this.nameColumns(schemaToColumns(config.schema, []), namer);
+
+    let columns: TableColumn[];
+    if (config.mongoMappingType === 'aggregate') {
+      const { groupBy, aggregates } = config.aggregation!;
+      columns = [...groupBy, ...aggregates.map(spec => spec.name)].map(name => ({ name, type: 'unknown', required: false }));
+    } else if (config.mongoMappingType === 'normalize' || config.options?.includeAllFields) {
+      return [];
+    } else {
+      columns = [
+        ...config.fieldMappings.map(mapping => ({ name: mapping.documentField, type: 'unknown', required: mapping.required === true })),
+        ...this.derivedFields.map(field => ({ name: field.name, type: 'unknown', required: false }))
+      ];
+    }
+    return this.nameColumns(columns, namer);
+  }
+
+  private assertSingleTableMode(): void {
+    if (this.config.mongoMappingType === 'normalize') {
+      throw new ConfigurationError('normalize mapping produces several tables; use mapNormalized() instead');
+    }
+  }
+
+  private mapDocument(doc: MongoDBDocument): Record<string, any>[] {
+    const options = this.config.options || {};
+    this.run.documents++;
+    if (!this.matchesFilter(doc)) return [];
+    if (this.redactor) doc = this.redactor.redact(doc);
+    let rows: Record<string, any>[];
+    try {
+      rows = this.expandsArrays()
+        ? this.expandDocument(doc, options)
+        : [this.applyFieldMappings(this.flattenDocument(doc, options), doc._id)];
+    } catch (error) {
+      this.handleMappingError(error, doc._id);
+      if (!options.skipInvalidRows) throw error;
+      this.run.skippedDocuments++;
+      return [];
+    }
+
+    const schema = this.config.schema;
+    const result: Record<string, any>[] = [];
+    for (const row of rows) {
+      const rowIndex = this.rowCounter++;
+      if (!schema) {
+        result.push(row);
+        continue;
+      }
+      const violations = validateRow(row, schema, { rowIndex, documentId: formatDocumentId(doc._id) }, options.nullValue);
+      for (const violation of violations) this.errorCollector.add(violation);
+      if (violations.length > 0) {
+        if (!options.skipInvalidRows) throw violations[0];
+        this.run.skippedRows++;
+        continue;
       }
+      result.push(projectRow(row, schema, options.nullValue));
     }
+    this.run.rows += result.length;
+    return result;
+  }
+
+  private expandsArrays(): boolean {
+    const mode = this.config.mongoMappingType;
+    return mode === 'array_expand' || (mode === 'aggregate' && this.arrayPaths.length > 0);
+  }
+
+  private createAggregator(): GroupAggregator | undefined {
+    if (this.config.mongoMappingType !== 'aggregate') return undefined;
+    return new GroupAggregator(this.config.aggregation!, this.config.options?.nullValue);
+  }
+
+  private createAggregateTable(aggregator: GroupAggregator): TableData {
+    const { rows, columns } = aggregator.getResult();
+    const named = this.nameColumns(columns);
+    const table = this.createTableData(this.renameRows(rows), named);
+    const { groupBy, aggregates } = this.config.aggregation!;
+    table.metadata = { ...table.metadata, groupBy: [...groupBy], aggregates: aggregates.map(spec => ({ ...spec })) };
+    return table;
+  }
+
+  private matchesFilter(doc: MongoDBDocument): boolean {
+    if (!this.config.filter || matchesQuery(doc, this.config.filter)) return true;
+    this.run.filteredDocuments++;
+    return false;
+  }
+
+  private resolveColumns(tracker: ColumnTracker): TableColumn[] {
+    const inferred = tracker.getColumns();
+    return this.config.schema ? schemaToColumns(this.config.schema, inferred) : inferred;
+  }
+
+  /**
+   * Applies `columnNaming`, recording each column's source path in `sourceFields`.
+   * Names are assigned in column order, so they do not depend on row order.
+   * Normalize mode passes one namer per table.
+   */
+  private nameColumns(columns: TableColumn[], namer = this.namer): TableColumn[] {
+    if (!namer) return columns;
+    const sources = this.columnSources();
+    return columns.map(column => ({ ...column, name: namer.name(column.name), sourceFields: [sources.get(column.name) ?? column.name] }));
+  }
+
+  private renameRows(rows: Record<string, any>[], namer = this.namer): Record<string, any>[] {
+    if (!namer) return rows;
+    return rows.map(row => {
+      const renamed: Record<string, any> = {};
+      for (const [key, value] of Object.entries(row)) renamed[namer.name(key)] = value;
+      return renamed;
+    });
+  }
+
+  /** Keeps the names of columns from an earlier run, such as an incremental export's checkpoint. */
+  private reserveColumnNames(columns: TableColumn[]): void {
+    const keys = new Map(Array.from(this.columnSources(), ([key, source]) => [source, key]));
+    for (const column of columns) {
+      const source = column.sourceFields?.[0];
+      if (source !== undefined) this.namer!.reserve(keys.get(source) ?? source, column.name);
+    }
+  }
 
-    return this.createTableData(rows, 'array_expand');
+  /** Source path of each mapped column; with includeAllFields the column name is the path. */
+  private columnSources(): Map<string, string> {
+    if (this.config.options?.includeAllFields) return new Map();
+    return new Map(this.config.fieldMappings.map(mapping => [mapping.documentField, mapping.databaseField]));
   }
 
-  private flattenDocument(doc: MongoDBDocument, options: MappingOptions): Record<string, any> {
+  private expandDocument(doc: MongoDBDocument, options: MappingOptions): Record<string, any>[] {
+    let expandedDocs = expandDocumentArrays(doc, this.arrayPaths, {
+      strategy: this.config.arrayExpandStrategy,
+      includeIndex: options.includeArrayIndex
+    });
+    const filter = this.config.filter;
+    if (filter) {
+      const matching = expandedDocs.filter(expandedDoc => matchesQuery(toElementDocument(expandedDoc), filter));
+      this.run.filteredRows += expandedDocs.length - matching.length;
+      expandedDocs = matching;
+    }
+    return expandedDocs.map(expandedDoc => this.applyFieldMappings(this.flattenDocument(expandedDoc, options), doc._id));
+  }
+
+  private flattenDocument(doc: Record<string, any>, options: MappingOptions): Record<string, any> {
     const maxDepth = options.maxDepth || 10;
-    const flattened = flattenObject(doc, '', maxDepth);
+    const flattened = flattenObject(doc, '', maxDepth, 0, { arrayPolicies: options.arrayPolicies, arraySeparator: options.arraySeparator });
     const excludeFields = options.excludeFields || [];
-    const preserveBuffer = options.preserveBufferFields ?? false;
 
     const result: Record<string, any> = {};
     for (const [key, value] of Object.entries(flattened)) {
       if (excludeFields.includes(key)) continue;
-      if (!preserveBuffer && (key.endsWith('.buffer') || /\.buffer\.\d+$/.test(key))) continue;
       result[key] = value;
     }
     return result;
   }
 
-  private createExpandedDocument(originalDoc: MongoDBDocument, arrayField: string, arrayElement: any): Record<string, any> {
-    const expanded: Record<string, any> = {};
-    for (const [key, value] of Object.entries(originalDoc)) {
-      if (key === arrayField) {
-        if (typeof arrayElement === 'object' && arrayElement !== null) {
-          for (const [nestedKey, nestedValue] of Object.entries(arrayElement)) {
-            expanded[`${arrayField}[].${nestedKey}`] = nestedValue;
-          }
-        } else {
-          expanded[`${arrayField}[]`] = arrayElement;
-        }
-      } else {
-        expanded[key] = value;
-      }
-    }
-    return expanded;
-  }
-
-  private applyFieldMappings(flattenedDoc: Record<string, any>): Record<string, any> {
-    if (this.config.options?.includeAllFields) return flattenedDoc;
-    return transformObject(flattenedDoc, this.config.fieldMappings, {
-      nullValue: this.config.options?.nullValue,
-      dateFormat: this.config.options?.dateFormat
-    });
+  private applyFieldMappings(flattenedDoc: Record<string, any>, documentId?: any): Record<string, any> {
+    const options = this.config.options || {};
+    const id = documentId === undefined ? undefined : formatDocumentId(documentId);
+    const row = options.includeAllFields
+      ? { ...flattenedDoc }
+      : transformObject(flattenedDoc, this.config.fieldMappings, { nullValue: options.nullValue, dateFormat: options.dateFormat, documentId: id });
+    if (this.derivedFields.length === 0) return row;
+    return applyDerivedFields(flattenedDoc, row, this.derivedFields, { documentId: id, nullValue: options.nullValue });
   }
 
-  private createTableData(rows: Record<string, any>[], mappingType: MongoDBMappingType): TableData {
+  private createTableData(rows: Record<string, any>[], columns: TableColumn[]): TableData {
+    const mappingType = this.config.mongoMappingType;
     if (rows.length === 0) {
       return { columns: [], rows: [], metadata: { totalRows: 0, totalColumns: 0, mappingType, sourceCollection: '', generatedAt: new Date().toISOString() } };
     }
 
-    const columns: TableColumn[] = this.inferColumns(rows);
     return {
       columns,
       rows,
@@ -136,59 +463,115 @@ export class MongoDBToTableMapper {
         totalColumns: columns.length,
         mappingType,
         sourceCollection: this.config.sourceTableName || 'unknown',
-        generatedAt: new Date().toISOString()
+        generatedAt: new Date().toISOString(),
+        ...(this.redactor ? { redaction: this.describeRedaction(rows, columns) } : {})
       }
     };
   }
 
-  private inferColumns(rows: Record<string, any>[]): TableColumn[] {
-    const columnNames = new Set<string>();
-    for (const row of rows) {
-      for (const key of Object.keys(row)) columnNames.add(key);
-    }
-
-    const columns: TableColumn[] = [];
-    for (const name of columnNames) {
-      const values = rows.map(row => row[name]);
-      const type = inferColumnType(values);
-      const required = values.every(v => v !== null && v !== undefined);
-      columns.push({ name, type, required });
+  private describeRedaction(rows: Record<string, any>[], columns: TableColumn[]): NonNullable<TableData['metadata']['redaction']> {
+    const redactor = this.redactor!;
+    const redaction: NonNullable<TableData['metadata']['redaction']> = { fields: redactor.getRedactedFields() };
+    if (this.config.redaction?.detectPii && this.config.options?.includeAllFields) {
+      const derived = new Set(this.derivedFields.map(field => field.name));
+      const unmapped = columns
+        .filter(column => !derived.has(column.sourceFields?.[0] ?? column.name) && !redactor.covers(column.sourceFields?.[0] ?? column.name))
+        .map(column => column.name);
+      redaction.detected = detectPii(rows, unmapped);
     }
-
-    return columns.sort((a, b) => {
-      if (a.required && !b.required) return -1;
-      if (!a.required && b.required) return 1;
-      return a.name.localeCompare(b.name);
-    });
+    return redaction;
   }
 
   private handleMappingError(error: unknown, documentId?: any): void {
     if (error instanceof MappingError) {
-      this.errorCollector.add(error);
+      this.errorCollector.add(error, { documentId: documentId === undefined ? undefined : formatDocumentId(documentId) });
     } else {
-      this.errorCollector.add(new MappingError((error as Error).message, 'UNKNOWN_ERROR', { documentId: String(documentId) }));
+      this.errorCollector.add(new MappingError((error as Error).message, 'UNKNOWN_ERROR', { documentId: formatDocumentId(documentId) }));
     }
   }
 
+  private startRun(): void {
+    this.errorCollector.clear();
+    this.redactor?.reset();
+    const naming = this.config.options?.columnNaming;
+    this.namer = naming ? new ColumnNamer(naming) : undefined;
+    this.rowCounter = 0;
+    this.run = createRunCounters();
+  }
+
+  private finishRun(): void {
+    this.run.finishedAt = new Date();
+  }
+
   public hasErrors(): boolean { return this.errorCollector.hasErrors(); }
   public getErrors(): MappingError[] { return this.errorCollector.getErrors(); }
+  public getProcessingErrors(): ProcessingError[] { return this.errorCollector.getProcessingErrors(); }
 
-  public export(data: TableData, options: ExportOptions): string {
-    let exporter: Exporter;
-    switch (options.format) {
-      case 'csv': exporter = new CSVExporter(options); break;
-      case 'json': exporter = new JSONExporter(options); break;
-      case 'array': exporter = new ArrayExporter(options); break;
-      default: throw new ConfigurationError(`Unknown export format: ${options.format}`);
+  /** Tokens handed out by `tokenize` redaction rules in the last run, mapped to the original values. Keep them secret. */
+  public getRedactionTokens(): Record<string, string> { return this.redactor?.getTokens() ?? {}; }
+
+  /**
+   * Statistics for the most recent map call. While a stream is still being consumed
+   * the counters reflect progress so far and `finishedAt` is not yet set.
+   */
+  public getStats(): ProcessingStats {
+    const errors = this.errorCollector.getProcessingErrors();
+    const errorsByCode: Record<string, number> = {};
+    const errorsByField: Record<string, number> = {};
+    for (const error of errors) {
+      errorsByCode[error.code] = (errorsByCode[error.code] || 0) + 1;
+      if (error.field) errorsByField[error.field] = (errorsByField[error.field] || 0) + 1;
     }
-    return exporter.export(data);
+
+    const end = this.run.finishedAt ?? new Date();
+    return {
+      totalDocuments: this.run.documents,
+      processedRows: this.run.rows,
+      skippedRows: this.run.skippedRows,
+      skippedDocuments: this.run.skippedDocuments,
+      filteredDocuments: this.run.filteredDocuments,
+      filteredRows: this.run.filteredRows,
+      errorCount: errors.length,
+      errors,
+      errorsByCode,
+      errorsByField,
+      startedAt: this.run.startedAt.toISOString(),
+      finishedAt: this.run.finishedAt?.toISOString(),
+      durationMs: end.getTime() - this.run.startedAt.getTime()
+    };
+  }
+
+  public exportErrors(format: RejectsFormat = 'csv'): string {
+    return exportRejects(this.errorCollector.getProcessingErrors(), format);
+  }
+
+  public export(data: TableData, options: ExportOptions): string {
+    return createExporter(options).export(data);
   }
 }
 
+interface RunCounters extends ShardCounters {
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+function createRunCounters(): RunCounters {
+  return { documents: 0, rows: 0, skippedRows: 0, skippedDocuments: 0, filteredDocuments: 0, filteredRows: 0, startedAt: new Date() };
+}
+
+/** ObjectIds and other BSON ids read the same whether they come from the driver or Extended JSON. */
+function formatDocumentId(id: any): string {
+  return String(bsonToScalar(id));
+}
+
 export function createMapper(config: MappingConfig): MongoDBToTableMapper {
   return new MongoDBToTableMapper(config);
 }
 
+export function mapMongoDBToTables(documents: MongoDBDocument[], config: MappingConfig): TableSet {
+  return createMapper(config).mapNormalized(documents);
+}
+
 export function mapMongoDBToTable(documents: MongoDBDocument[], config: MappingConfig): TableData {
   return createMapper(config).map(documents);
 }
@@ -0,0 +1,108 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Column Naming
+ */
+
+import { createHash } from 'crypto';
+import { ColumnNamingOptions } from './types';
+import { ConfigurationError } from './errors';
+
+/** Words reserved in PostgreSQL, MySQL or SQLite that commonly turn up as field names. */
+export const SQL_RESERVED_WORDS = [
+  'all', 'alter', 'and', 'any', 'as', 'asc', 'between', 'by', 'case', 'cast', 'check', 'column', 'constraint',
+  'create', 'cross', 'current_date', 'current_time', 'current_timestamp', 'current_user', 'default', 'delete',
+  'desc', 'distinct', 'drop', 'else', 'end', 'except', 'exists', 'false', 'fetch', 'for', 'foreign', 'from',
+  'full', 'grant', 'group', 'having', 'in', 'index', 'inner', 'insert', 'intersect', 'into', 'is', 'join', 'key',
+  'left', 'like', 'limit', 'natural', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'primary',
+  'references', 'right', 'select', 'set', 'table', 'then', 'to', 'true', 'union', 'unique', 'update', 'user',
+  'using', 'values', 'when', 'where', 'with'
+];
+
+const HASH_LENGTH = 8;
+const MIN_MAX_LENGTH = 16;
+
+export function validateColumnNaming(options: ColumnNamingOptions): void {
+  if (options.case !== undefined && !['preserve', 'snake', 'camel'].includes(options.case)) {
+    throw new ConfigurationError(`columnNaming.case must be preserve, snake or camel, not "${options.case}"`);
+  }
+  if (options.separator !== undefined && !/^[A-Za-z0-9_]*$/.test(options.separator)) {
+    throw new ConfigurationError('columnNaming.separator may only contain letters, digits and "_"');
+  }
+  if (options.maxLength !== undefined && (!Number.isInteger(options.maxLength) || options.maxLength < MIN_MAX_LENGTH)) {
+    throw new ConfigurationError(`columnNaming.maxLength must be an integer of at least ${MIN_MAX_LENGTH}`);
+  }
+  if (options.reservedWords !== undefined && !Array.isArray(options.reservedWords)) {
+    throw new ConfigurationError('columnNaming.reservedWords must be an array');
+  }
+}
+
+/**
+ * The column name for a source path on its own, before collisions are taken
+ * into account: `items[0].unitPrice` becomes `items_0_unit_price` in snake case.
+ */
+export function formatColumnName(path: string, options: ColumnNamingOptions = {}): string {
+  const separator = options.separator ?? '_';
+  const segments = path.replace(/\[(\d*)\]/g, (_, index) => (index ? `.${index}` : '')).split('.').filter(Boolean);
+
+  let name: string;
+  switch (options.case ?? 'preserve') {
+    case 'snake':
+      name = segments.map(segment => splitWords(segment).map(word => word.toLowerCase()).join('_')).filter(Boolean).join(separator);
+      break;
+    case 'camel':
+      name = segments.flatMap(splitWords)
+        .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+        .join('');
+      break;
+    default:
+      name = segments.map(segment => segment.replace(/[^A-Za-z0-9_]/g, '_')).join(separator);
+  }
+
+  if (options.case === 'snake' || options.case === 'camel') name = (path.match(/^_+/)?.[0] ?? '') + name;
+  if (name === '' || /^[0-9]/.test(name)) name = `_${name}`;
+  const reserved = options.reservedWords ?? SQL_RESERVED_WORDS;
+  if (reserved.some(word => word.toLowerCase() === name.toLowerCase())) name = `${name}_`;
+  if (options.maxLength !== undefined && name.length > options.maxLength) name = withHash(name, path, options.maxLength);
+  return name;
+}
+
+/**
+ * Assigns column names to source paths for one run. A path whose name is
+ * already taken by another path gets a hash of its own path appended, so every
+ * column keeps a distinct name.
+ */
+export class ColumnNamer {
+  private names = new Map<string, string>();
+  private taken = new Set<string>();
+
+  constructor(private options: ColumnNamingOptions) {
+    validateColumnNaming(options);
+  }
+
+  /** Fixes the name of a path, e.g. to keep the columns of an earlier run. */
+  reserve(path: string, name: string): void {
+    this.names.set(path, name);
+    this.taken.add(name);
+  }
+
+  name(path: string): string {
+    const known = this.names.get(path);
+    if (known !== undefined) return known;
+
+    let name = formatColumnName(path, this.options);
+    if (this.taken.has(name)) name = withHash(name, path, this.options.maxLength ?? name.length + HASH_LENGTH + 1);
+    const base = name;
+    for (let i = 2; this.taken.has(name); i++) name = `${base}_${i}`;
+    this.reserve(path, name);
+    return name;
+  }
+}
+
+/** Cuts a name so that `_` plus a hash of the path fits within `maxLength`. */
+function withHash(name: string, path: string, maxLength: number): string {
+  const hash = createHash('sha1').update(path).digest('hex').slice(0, HASH_LENGTH);
+  return `${name.slice(0, maxLength - HASH_LENGTH - 1).replace(/_+$/, '')}_${hash}`;
+}
+
+function splitWords(segment: string): string[] {
+  return segment.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
@@ -0,0 +1,114 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Normalized (Parent/Child) Tables
+ */
+
+import { FieldMapping, MongoDBDocument } from './types';
+import { ConfigurationError, ValidationError } from './errors';
+import { ArrayPathNode, omitPath } from './array-expand';
+import { getNestedValue } from './transformers';
+import { isBsonValue } from './bson';
+
+export const ROOT_ID_COLUMN = '_root_id';
+export const PRIMITIVE_VALUE_COLUMN = 'value';
+
+export interface NormalizedTableDefinition {
+  name: string;
+  /** Array path of the table, e.g. `orders[].items`; empty for the parent table. */
+  path: string;
+  parentTable?: string;
+  foreignKeys: string[];
+}
+
+export function sanitizeTableName(name: string): string {
+  return name.replace(/\[\]/g, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'root';
+}
+
+export function indexColumnName(node: ArrayPathNode): string {
+  return `_${sanitizeTableName(node.path)}_index`;
+}
+
+/**
+ * Lists the parent table followed by one child table per array path (depth first).
+ * Child tables are named `<root>_<path>`, e.g. `customers_orders_items`; paths
+ * that would share a name, such as `a.b` and `a_b`, are rejected.
+ */
+export function buildNormalizedTables(rootName: string, nodes: ArrayPathNode[]): NormalizedTableDefinition[] {
+  const root = sanitizeTableName(rootName);
+  const tables: NormalizedTableDefinition[] = [{ name: root, path: '', foreignKeys: [] }];
+
+  const visit = (node: ArrayPathNode, parent: NormalizedTableDefinition, ancestorKeys: string[]) => {
+    const foreignKeys = [...ancestorKeys, indexColumnName(node)];
+    const table = { name: `${root}_${sanitizeTableName(node.fullPath)}`, path: node.fullPath, parentTable: parent.name, foreignKeys };
+    const clash = tables.find(other => other.name === table.name);
+    if (clash) {
+      throw new ConfigurationError(`array paths "${clash.path}" and "${table.path}" would both be stored in table "${table.name}"`);
+    }
+    tables.push(table);
+    for (const child of node.children) visit(child, table, foreignKeys);
+  };
+  for (const node of nodes) visit(node, tables[0], [ROOT_ID_COLUMN]);
+
+  return tables;
+}
+
+/**
+ * Splits a document into records keyed by table path. Child records carry the
+ * root `_id` and the index of every enclosing array element as foreign keys.
+ */
+export function splitDocument(doc: MongoDBDocument, nodes: ArrayPathNode[]): Map<string, Record<string, any>[]> {
+  const records = new Map<string, Record<string, any>[]>();
+  const add = (path: string, record: Record<string, any>) => {
+    if (!records.has(path)) records.set(path, []);
+    records.get(path)!.push(record);
+  };
+
+  const visit = (source: Record<string, any>, levelNodes: ArrayPathNode[], keys: Record<string, any>) => {
+    for (const node of levelNodes) {
+      const arrayValue = getNestedValue(source, node.path);
+      if (arrayValue === null || arrayValue === undefined) continue;
+      if (!Array.isArray(arrayValue)) {
+        throw new ValidationError(`Field is not an array: ${node.fullPath}`, node.fullPath, arrayValue);
+      }
+
+      arrayValue.forEach((element, index) => {
+        const elementKeys = { ...keys, [indexColumnName(node)]: index };
+        if (typeof element === 'object' && element !== null && !Array.isArray(element) && !isBsonValue(element)) {
+          add(node.fullPath, { ...elementKeys, ...omitPaths(element, node.children) });
+          visit(element, node.children, elementKeys);
+        } else {
+          add(node.fullPath, { ...elementKeys, [PRIMITIVE_VALUE_COLUMN]: element });
+        }
+      });
+    }
+  };
+
+  add('', omitPaths(doc, nodes));
+  visit(doc, nodes, { [ROOT_ID_COLUMN]: doc._id });
+  return records;
+}
+
+/**
+ * Assigns each field mapping to the table of its longest array path prefix and
+ * rewrites `databaseField` relative to that table, e.g. `orders[].total` -> `total`.
+ */
+export function routeFieldMappings(fieldMappings: FieldMapping[], tables: NormalizedTableDefinition[]): Map<string, FieldMapping[]> {
+  const routed = new Map<string, FieldMapping[]>(tables.map(table => [table.path, []]));
+  const childTables = tables.filter(table => table.path !== '').sort((a, b) => b.path.length - a.path.length);
+
+  for (const mapping of fieldMappings) {
+    const field = mapping.databaseField;
+    const table = childTables.find(candidate => field === `${candidate.path}[]` || field.startsWith(`${candidate.path}[].`));
+    if (!table) {
+      routed.get('')!.push(mapping);
+      continue;
+    }
+    const relative = field === `${table.path}[]` ? PRIMITIVE_VALUE_COLUMN : field.slice(table.path.length + 3);
+    routed.get(table.path)!.push({ ...mapping, databaseField: relative });
+  }
+
+  return routed;
+}
+
+function omitPaths(source: Record<string, any>, nodes: ArrayPathNode[]): Record<string, any> {
+  return nodes.reduce((result, node) => omitPath(result, node.path), source);
+}
@@ -0,0 +1,21 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Parallel Mapping Worker
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { createMapper } from './mapper';
+import { ParallelWorkerData, ShardRequest, ShardResponse, serializeError } from './parallel';
+
+const { config, modules } = workerData as ParallelWorkerData;
+for (const modulePath of modules) require(modulePath);
+const mapper = createMapper(config);
+
+parentPort!.on('message', ({ index, documents }: ShardRequest) => {
+  let response: ShardResponse;
+  try {
+    response = { index, shard: mapper.mapShard(documents) };
+  } catch (error) {
+    response = { index, error: serializeError(error) };
+  }
+  parentPort!.postMessage(response);
+});
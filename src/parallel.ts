@@ -0,0 +1,152 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Parallel Mapping
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { MappingConfig, MongoDBDocument, ParallelMappingOptions, ProcessingError, RedactedField } from './types';
+import { MappingError, ConfigurationError } from './errors';
+import { ColumnTrackerSnapshot } from './columns';
+import { toExtendedJSON } from './bson';
+
+export const DEFAULT_PARALLEL_CHUNK_SIZE = 5000;
+
+export interface ShardCounters {
+  documents: number;
+  rows: number;
+  skippedRows: number;
+  skippedDocuments: number;
+  filteredDocuments: number;
+  filteredRows: number;
+}
+
+/** A MappingError reduced to data that survives `postMessage`. */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  field?: string;
+  documentId?: string;
+  rowIndex?: number;
+  value?: any;
+  recoverable?: boolean;
+}
+
+/** The result of mapping one chunk in a worker; see `MongoDBToTableMapper.mapShard`. */
+export interface MappedShard {
+  rows: Record<string, any>[];
+  columns: ColumnTrackerSnapshot;
+  counters: ShardCounters;
+  /** Rows produced before schema validation; error row indexes count these. */
+  rowCount: number;
+  redaction?: { fields: RedactedField[]; tokens: Record<string, string> };
+  errors: Array<{ error: SerializedError; record: ProcessingError }>;
+}
+
+export interface ShardRequest {
+  index: number;
+  documents: MongoDBDocument[];
+}
+
+export type ShardResponse = { index: number; shard: MappedShard } | { index: number; error: SerializedError };
+
+export interface ParallelWorkerData {
+  config: MappingConfig;
+  modules: string[];
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof MappingError) {
+    const { name, message, code, field, documentId, rowIndex, value, recoverable } = error;
+    return { name, message, code, field, documentId, rowIndex, value: toExtendedJSON(value), recoverable };
+  }
+  return { name: (error as Error)?.name ?? 'Error', message: (error as Error)?.message ?? String(error) };
+}
+
+/** Rebuilds an error sent by a worker, shifting its row index by the rows of earlier chunks. */
+export function restoreError(serialized: SerializedError, rowOffset = 0): Error {
+  const { name, message, code, rowIndex } = serialized;
+  const error = code === undefined ? new Error(message) : new MappingError(message, code, {
+    field: serialized.field,
+    documentId: serialized.documentId,
+    rowIndex: rowIndex === undefined ? undefined : rowIndex + rowOffset,
+    value: serialized.value,
+    recoverable: serialized.recoverable
+  });
+  error.name = name;
+  return error;
+}
+
+/** Throws if the config holds a function, which cannot be copied to a worker thread. */
+export function assertTransferableConfig(value: any, location = 'config'): void {
+  if (typeof value === 'function') {
+    throw new ConfigurationError(`${location} is a function and cannot be sent to worker threads; register it with registerTransformer in one of the parallel modules and refer to it by name`);
+  }
+  if (value === null || typeof value !== 'object') return;
+  for (const [key, nested] of Object.entries(value)) {
+    assertTransferableConfig(nested, Array.isArray(value) ? `${location}[${key}]` : `${location}.${key}`);
+  }
+}
+
+export function splitIntoChunks<T>(items: T[], chunkSize: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += chunkSize) chunks.push(items.slice(start, start + chunkSize));
+  return chunks;
+}
+
+/**
+ * Maps every chunk on a pool of worker threads and returns the results in chunk
+ * order. If chunks fail, the error of the first failing chunk is thrown once the
+ * chunks before it have finished, so the outcome does not depend on timing.
+ */
+export function mapShards(config: MappingConfig, chunks: MongoDBDocument[][], options: ParallelMappingOptions = {}): Promise<MappedShard[]> {
+  const workerCount = Math.max(1, Math.min(options.workers ?? os.cpus().length, chunks.length));
+  const workerData: ParallelWorkerData = { config, modules: (options.modules ?? []).map(modulePath => path.resolve(modulePath)) };
+
+  return new Promise((resolve, reject) => {
+    const results: MappedShard[] = new Array(chunks.length);
+    const failures = new Map<number, Error>();
+    let firstFailure = chunks.length;
+    let next = 0;
+    let running = workerCount;
+
+    const fail = (index: number, error: Error) => {
+      if (!failures.has(index)) failures.set(index, error);
+      firstFailure = Math.min(firstFailure, index);
+    };
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = startWorker(workerData);
+      let current: number | undefined;
+      const dispatch = () => {
+        if (next >= firstFailure) {
+          current = undefined;
+          void worker.terminate();
+          return;
+        }
+        current = next++;
+        const request: ShardRequest = { index: current, documents: chunks[current].map(toExtendedJSON) };
+        worker.postMessage(request);
+      };
+
+      worker.on('message', (response: ShardResponse) => {
+        if ('error' in response) fail(response.index, restoreError(response.error));
+        else results[response.index] = response.shard;
+        dispatch();
+      });
+      worker.on('error', error => fail(current ?? next, error));
+      worker.on('exit', code => {
+        if (current !== undefined && !failures.has(current)) fail(current, new Error(`parallel mapping worker exited with code ${code}`));
+        if (--running > 0) return;
+        if (failures.size > 0) reject(failures.get(Math.min(...failures.keys())));
+        else resolve(results);
+      });
+      dispatch();
+    }
+  });
+}
+
+function startWorker(workerData: ParallelWorkerData): Worker {
+  return new Worker(path.join(__dirname, 'parallel-worker.js'), { workerData });
+}
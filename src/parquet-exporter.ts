@@ -0,0 +1,290 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Parquet Exporter
+ */
+
+import { gzipSync } from 'zlib';
+import { TableData, TableColumn } from './types';
+import { ExportError } from './errors';
+import { BaseExporter } from './base-exporter';
+
+type PhysicalType = 'BOOLEAN' | 'INT64' | 'DOUBLE' | 'BYTE_ARRAY';
+
+interface ParquetType {
+  physical: PhysicalType;
+  /** Logical annotation written to the schema, if any. */
+  logical?: 'STRING' | 'TIMESTAMP_MILLIS';
+}
+
+const PARQUET_TYPES: Record<string, ParquetType> = {
+  integer: { physical: 'INT64' },
+  long: { physical: 'INT64' },
+  float: { physical: 'DOUBLE' },
+  boolean: { physical: 'BOOLEAN' },
+  date: { physical: 'INT64', logical: 'TIMESTAMP_MILLIS' },
+  timestamp: { physical: 'INT64', logical: 'TIMESTAMP_MILLIS' },
+  binary: { physical: 'BYTE_ARRAY' }
+};
+/** Decimals, ObjectIds, arrays, objects and anything untyped are written as UTF-8 text, so nothing is rounded. */
+const TEXT_TYPE: ParquetType = { physical: 'BYTE_ARRAY', logical: 'STRING' };
+
+const PHYSICAL_TYPE_IDS: Record<PhysicalType, number> = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const CONVERTED_TYPE_IDS = { STRING: 0, TIMESTAMP_MILLIS: 9 };
+const CODEC_IDS = { none: 0, gzip: 2 };
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const MAGIC = Buffer.from('PAR1', 'ascii');
+const INTEGER_LITERAL = /^-?\d+$/;
+
+/** Thrift compact protocol type ids. */
+const T = { BOOL: 1, I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+type ThriftField = [id: number, type: number, value: any];
+
+export function getParquetType(columnType: string): string {
+  const type = PARQUET_TYPES[columnType] ?? TEXT_TYPE;
+  return type.logical ?? (type.physical === 'BYTE_ARRAY' ? 'BINARY' : type.physical);
+}
+
+/**
+ * Writes Apache Parquet files. The schema follows the column types, columns are
+ * OPTIONAL unless `required`, and rows are split into row groups of
+ * `parquet.rowGroupSize`.
+ */
+export class ParquetExporter extends BaseExporter {
+  /** Returns the file base64-encoded, to fit the string-based Exporter interface. */
+  export(data: TableData): string {
+    return this.exportBuffer(data).toString('base64');
+  }
+
+  exportBuffer(data: TableData): Buffer {
+    const rowGroupSize = this.options.parquet?.rowGroupSize ?? 10000;
+    const compression = this.options.parquet?.compression ?? 'gzip';
+    if (!Number.isInteger(rowGroupSize) || rowGroupSize < 1) {
+      throw new ExportError(`rowGroupSize must be a positive integer, got ${rowGroupSize}`, 'parquet');
+    }
+    if (!(compression in CODEC_IDS)) throw new ExportError(`unknown compression "${compression}"`, 'parquet');
+
+    const parts: Buffer[] = [MAGIC];
+    let offset = MAGIC.length;
+    const rowGroups: ThriftField[][] = [];
+
+    for (let start = 0; start < data.rows.length; start += rowGroupSize) {
+      const rows = data.rows.slice(start, start + rowGroupSize);
+      const chunks: ThriftField[][] = [];
+      let totalSize = 0;
+      for (const column of data.columns) {
+        const type = PARQUET_TYPES[column.type] ?? TEXT_TYPE;
+        const values = rows.map((row, i) => this.convert(row[column.name], column, type, start + i));
+        const page = this.columnChunk(values, column, type, compression);
+        chunks.push([
+          [2, T.I64, offset],
+          [3, T.STRUCT, [
+            [1, T.I32, PHYSICAL_TYPE_IDS[type.physical]],
+            [2, T.LIST, { type: T.I32, items: [ENCODING_PLAIN, ENCODING_RLE] }],
+            [3, T.LIST, { type: T.BINARY, items: [column.name] }],
+            [4, T.I32, CODEC_IDS[compression]],
+            [5, T.I64, rows.length],
+            [6, T.I64, page.uncompressedSize],
+            [7, T.I64, page.bytes.length],
+            [9, T.I64, offset]
+          ]]
+        ]);
+        parts.push(page.bytes);
+        offset += page.bytes.length;
+        totalSize += page.uncompressedSize;
+      }
+      rowGroups.push([
+        [1, T.LIST, { type: T.STRUCT, items: chunks }],
+        [2, T.I64, totalSize],
+        [3, T.I64, rows.length]
+      ]);
+    }
+
+    const footer = compact([
+      [1, T.I32, 1],
+      [2, T.LIST, { type: T.STRUCT, items: [[[4, T.BINARY, 'schema'], [5, T.I32, data.columns.length]], ...data.columns.map(schemaElement)] }],
+      [3, T.I64, data.rows.length],
+      [4, T.LIST, { type: T.STRUCT, items: rowGroups }],
+      [6, T.BINARY, 'mongodb-to-table']
+    ]);
+    const footerLength = Buffer.alloc(4);
+    footerLength.writeUInt32LE(footer.length, 0);
+    return Buffer.concat([...parts, footer, footerLength, MAGIC]);
+  }
+
+  exportToFile(data: TableData, filePath: string): void {
+    require('fs').writeFileSync(filePath, this.exportBuffer(data));
+  }
+
+  /** Encodes one data page (v1): definition levels for optional columns, then PLAIN values. */
+  private columnChunk(values: any[], column: TableColumn, type: ParquetType, compression: 'none' | 'gzip'): { bytes: Buffer; uncompressedSize: number } {
+    const present = values.filter(value => value !== null);
+    const body = Buffer.concat([
+      ...(column.required ? [] : [definitionLevels(values.map(value => value !== null))]),
+      plainValues(present, type.physical)
+    ]);
+    const payload = compression === 'gzip' ? gzipSync(body) : body;
+    const header = compact([
+      [1, T.I32, 0],
+      [2, T.I32, body.length],
+      [3, T.I32, payload.length],
+      [5, T.STRUCT, [
+        [1, T.I32, values.length],
+        [2, T.I32, ENCODING_PLAIN],
+        [3, T.I32, ENCODING_RLE],
+        [4, T.I32, ENCODING_RLE]
+      ]]
+    ]);
+    return { bytes: Buffer.concat([header, payload]), uncompressedSize: header.length + body.length };
+  }
+
+  private convert(value: any, column: TableColumn, type: ParquetType, rowIndex: number): any {
+    if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) {
+      if (column.required) throw new ExportError(`column "${column.name}" is required but row ${rowIndex} is null`, 'parquet');
+      return null;
+    }
+    const fail = (): never => {
+      throw new ExportError(`column "${column.name}" row ${rowIndex}: cannot write ${JSON.stringify(this.formatValue(value))} as ${getParquetType(column.type)}`, 'parquet');
+    };
+
+    switch (type.physical) {
+      case 'BOOLEAN':
+        if (typeof value === 'boolean') return value;
+        return value === 'true' ? true : value === 'false' ? false : fail();
+      case 'DOUBLE': {
+        const num = typeof value === 'number' ? value : Number(this.formatValue(value));
+        return isNaN(num) || this.formatValue(value).trim() === '' ? fail() : num;
+      }
+      case 'INT64': {
+        if (type.logical === 'TIMESTAMP_MILLIS') {
+          const time = value instanceof Date ? value.getTime() : Date.parse(this.formatValue(value));
+          return isNaN(time) ? fail() : BigInt(time);
+        }
+        if (typeof value === 'number') return Number.isInteger(value) ? BigInt(value) : fail();
+        const text = this.formatValue(value);
+        return INTEGER_LITERAL.test(text) ? BigInt(text) : fail();
+      }
+      default:
+        return type.logical === 'STRING'
+          ? Buffer.from(this.formatValue(value), 'utf-8')
+          : Buffer.from(this.formatValue(value), 'base64');
+    }
+  }
+}
+
+function schemaElement(column: TableColumn): ThriftField[] {
+  const type = PARQUET_TYPES[column.type] ?? TEXT_TYPE;
+  const fields: ThriftField[] = [
+    [1, T.I32, PHYSICAL_TYPE_IDS[type.physical]],
+    [3, T.I32, column.required ? 0 : 1],
+    [4, T.BINARY, column.name]
+  ];
+  if (type.logical === 'STRING') {
+    fields.push([6, T.I32, CONVERTED_TYPE_IDS.STRING], [10, T.STRUCT, [[1, T.STRUCT, []]]]);
+  } else if (type.logical === 'TIMESTAMP_MILLIS') {
+    fields.push([6, T.I32, CONVERTED_TYPE_IDS.TIMESTAMP_MILLIS], [10, T.STRUCT, [[8, T.STRUCT, [[1, T.BOOL, true], [2, T.STRUCT, [[1, T.STRUCT, []]]]]]]]);
+  }
+  return fields;
+}
+
+/** Definition levels (0 = null, 1 = present) as one bit-packed run, prefixed with its byte length. */
+function definitionLevels(present: boolean[]): Buffer {
+  const run = Buffer.concat([varint(BigInt((Math.ceil(present.length / 8) << 1) | 1)), packBits(present)]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(run.length, 0);
+  return Buffer.concat([length, run]);
+}
+
+function plainValues(values: any[], physical: PhysicalType): Buffer {
+  switch (physical) {
+    case 'BOOLEAN':
+      return packBits(values);
+    case 'INT64': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buffer.writeBigInt64LE(value, i * 8));
+      return buffer;
+    }
+    case 'DOUBLE': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buffer.writeDoubleLE(value, i * 8));
+      return buffer;
+    }
+    default:
+      return Buffer.concat(values.flatMap((value: Buffer) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(value.length, 0);
+        return [length, value];
+      }));
+  }
+}
+
+/** Packs booleans LSB first, padding the last byte with zeros. */
+function packBits(bits: boolean[]): Buffer {
+  const buffer = Buffer.alloc(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    if (bit) buffer[i >> 3] |= 1 << (i & 7);
+  });
+  return buffer;
+}
+
+/** Serializes a struct with the Thrift compact protocol, as used by Parquet metadata. */
+function compact(fields: ThriftField[]): Buffer {
+  const out: Buffer[] = [];
+  writeStruct(out, fields);
+  return Buffer.concat(out);
+}
+
+function writeStruct(out: Buffer[], fields: ThriftField[]): void {
+  let lastId = 0;
+  for (const [id, type, value] of fields) {
+    const wireType = type === T.BOOL ? (value ? 1 : 2) : type;
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      out.push(Buffer.from([(delta << 4) | wireType]));
+    } else {
+      out.push(Buffer.from([wireType]), varint(zigzag(BigInt(id))));
+    }
+    if (type !== T.BOOL) writeValue(out, type, value);
+    lastId = id;
+  }
+  out.push(Buffer.from([0]));
+}
+
+function writeValue(out: Buffer[], type: number, value: any): void {
+  switch (type) {
+    case T.I32:
+    case T.I64:
+      out.push(varint(zigzag(BigInt(value))));
+      break;
+    case T.BINARY: {
+      const bytes = Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'utf-8');
+      out.push(varint(BigInt(bytes.length)), bytes);
+      break;
+    }
+    case T.LIST: {
+      const { type: elementType, items } = value as { type: number; items: any[] };
+      out.push(items.length < 15
+        ? Buffer.from([(items.length << 4) | elementType])
+        : Buffer.concat([Buffer.from([0xf0 | elementType]), varint(BigInt(items.length))]));
+      items.forEach(item => writeValue(out, elementType, item));
+      break;
+    }
+    case T.STRUCT:
+      writeStruct(out, value);
+      break;
+  }
+}
+
+function zigzag(n: bigint): bigint {
+  return n >= 0n ? n << 1n : ((-n) << 1n) - 1n;
+}
+
+function varint(n: bigint): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = Number(n & 0x7fn);
+    n >>= 7n;
+    if (n > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (n > 0n);
+  return Buffer.from(bytes);
+}
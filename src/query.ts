@@ -0,0 +1,213 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Query Filters
+ */
+
+import { ConfigIssue, QueryFilter } from './types';
+import { ConfigValidationError } from './errors';
+import { getBsonType, bsonToScalar, normalizeBsonValues } from './bson';
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+const FIELD_OPERATORS = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists', '$regex', '$options', '$elemMatch', '$not', '$size', '$all'];
+
+type Comparable = { kind: 'number' | 'string' | 'date' | 'boolean' | 'other'; value: any };
+
+/**
+ * Checks a filter for unknown operators and malformed operands, reporting each
+ * problem at its path (e.g. `filter.status.$in`).
+ */
+export function findQueryIssues(query: QueryFilter, path = 'filter'): ConfigIssue[] {
+  if (!isPlainObject(query)) return [{ path, message: 'must be an object' }];
+  const issues: ConfigIssue[] = [];
+  for (const [key, condition] of Object.entries(query)) {
+    const keyPath = `${path}.${key}`;
+    if (LOGICAL_OPERATORS.includes(key)) {
+      if (!Array.isArray(condition) || condition.length === 0) issues.push({ path: keyPath, message: 'must be a non-empty array' });
+      else condition.forEach((sub, i) => issues.push(...findQueryIssues(sub, `${keyPath}[${i}]`)));
+    } else if (key.startsWith('$')) {
+      issues.push({ path: keyPath, message: `unknown top-level operator ${key}` });
+    } else {
+      issues.push(...findConditionIssues(condition, keyPath));
+    }
+  }
+  return issues;
+}
+
+export function validateQuery(query: QueryFilter, path = 'filter'): void {
+  const issues = findQueryIssues(query, path);
+  if (issues.length > 0) throw new ConfigValidationError(issues, path);
+}
+
+function findConditionIssues(condition: any, path: string): ConfigIssue[] {
+  if (!isOperatorObject(condition)) return [];
+  const issues: ConfigIssue[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    const operatorPath = `${path}.${operator}`;
+    const issue = (message: string) => issues.push({ path: operatorPath, message });
+    if (!FIELD_OPERATORS.includes(operator)) {
+      issue(`unknown operator ${operator}`);
+      continue;
+    }
+    switch (operator) {
+      case '$in':
+      case '$nin':
+      case '$all':
+        if (!Array.isArray(operand)) issue('must be an array');
+        break;
+      case '$size':
+        if (!Number.isInteger(operand) || operand < 0) issue('must be a non-negative integer');
+        break;
+      case '$regex':
+        try {
+          toRegExp(operand, condition.$options);
+        } catch (error) {
+          issue((error as Error).message);
+        }
+        break;
+      case '$options':
+        if (condition.$regex === undefined) issue('requires $regex');
+        break;
+      case '$not':
+        if (!(operand instanceof RegExp) && !isOperatorObject(operand)) issue('must be a regex or an operator object');
+        else issues.push(...findConditionIssues(operand, operatorPath));
+        break;
+      case '$elemMatch':
+        if (!isPlainObject(operand)) issue('must be an object');
+        else issues.push(...(isOperatorObject(operand) ? findConditionIssues(operand, operatorPath) : findQueryIssues(operand, operatorPath)));
+        break;
+    }
+  }
+  return issues;
+}
+
+/**
+ * Evaluates a MongoDB-style query against a document. Dotted paths reach into
+ * embedded documents and across arrays, and a condition on an array field
+ * matches when any element matches, as in MongoDB.
+ */
+export function matchesQuery(doc: Record<string, any>, query: QueryFilter): boolean {
+  return Object.entries(query).every(([key, condition]) => {
+    switch (key) {
+      case '$and': return (condition as QueryFilter[]).every(sub => matchesQuery(doc, sub));
+      case '$or': return (condition as QueryFilter[]).some(sub => matchesQuery(doc, sub));
+      case '$nor': return !(condition as QueryFilter[]).some(sub => matchesQuery(doc, sub));
+      default: return matchesCondition(resolvePath(doc, key), condition);
+    }
+  });
+}
+
+function resolvePath(doc: any, path: string): any[] {
+  const values: any[] = [];
+  collect(doc, path.split('.'), values);
+  return values;
+}
+
+function collect(current: any, segments: string[], out: any[]): void {
+  if (segments.length === 0) {
+    if (current !== undefined) out.push(current);
+    return;
+  }
+  if (current === null || current === undefined || typeof current !== 'object' || getBsonType(current)) return;
+
+  const [head, ...rest] = segments;
+  if (Array.isArray(current)) {
+    if (/^\d+$/.test(head)) collect(current[Number(head)], rest, out);
+    for (const element of current) {
+      if (isPlainObject(element)) collect(element, segments, out);
+    }
+    return;
+  }
+  collect(current instanceof Map ? current.get(head) : current[head], rest, out);
+}
+
+function matchesCondition(values: any[], condition: any): boolean {
+  if (condition instanceof RegExp) return matchesRegex(values, condition);
+  if (!isOperatorObject(condition)) return matchesEquality(values, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return matchesEquality(values, operand);
+      case '$ne': return !matchesEquality(values, operand);
+      case '$in': return (operand as any[]).some(item => (item instanceof RegExp ? matchesRegex(values, item) : matchesEquality(values, item)));
+      case '$nin': return !(operand as any[]).some(item => (item instanceof RegExp ? matchesRegex(values, item) : matchesEquality(values, item)));
+      case '$all': return (operand as any[]).every(item => matchesEquality(values, item));
+      case '$gt': case '$gte': case '$lt': case '$lte':
+        return expandArrays(values).some(value => compareMatches(value, operand, operator));
+      case '$exists': return (values.length > 0) === Boolean(operand);
+      case '$regex': return matchesRegex(values, toRegExp(operand, condition.$options));
+      case '$options': return true;
+      case '$size': return values.some(value => Array.isArray(value) && value.length === operand);
+      case '$not': return !matchesCondition(values, operand);
+      case '$elemMatch':
+        return values.some(value => Array.isArray(value) && value.some(element => (isOperatorObject(operand)
+          ? matchesCondition([element], operand)
+          : isPlainObject(element) && matchesQuery(element, operand))));
+      default: return false;
+    }
+  });
+}
+
+function matchesEquality(values: any[], target: any): boolean {
+  if (target === null || target === undefined) return values.length === 0 || values.some(value => value === null);
+  return values.some(value => equals(value, target) || (Array.isArray(value) && value.some(element => equals(element, target))));
+}
+
+function matchesRegex(values: any[], pattern: RegExp): boolean {
+  return expandArrays(values).some(value => {
+    const scalar = getBsonType(value) ? bsonToScalar(value) : value;
+    return typeof scalar === 'string' && new RegExp(pattern.source, pattern.flags.replace('g', '')).test(scalar);
+  });
+}
+
+function compareMatches(value: any, target: any, operator: string): boolean {
+  const a = toComparable(value);
+  const b = toComparable(target);
+  if (a.kind !== b.kind || a.kind === 'other') return false;
+  switch (operator) {
+    case '$gt': return a.value > b.value;
+    case '$gte': return a.value >= b.value;
+    case '$lt': return a.value < b.value;
+    default: return a.value <= b.value;
+  }
+}
+
+function equals(a: any, b: any): boolean {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left.kind !== right.kind) return false;
+  if (left.kind !== 'other') return left.value === right.value;
+  return JSON.stringify(normalizeBsonValues(a)) === JSON.stringify(normalizeBsonValues(b));
+}
+
+function toComparable(value: any): Comparable {
+  const bsonType = getBsonType(value);
+  if (bsonType === 'date' || bsonType === 'timestamp') return { kind: 'date', value: new Date(bsonToScalar(value)).getTime() };
+  if (bsonType === 'decimal' || bsonType === 'long' || bsonType === 'int' || bsonType === 'double') {
+    return { kind: 'number', value: Number(bsonToScalar(value)) };
+  }
+  if (bsonType) return { kind: 'string', value: String(bsonToScalar(value)) };
+  if (typeof value === 'number') return { kind: 'number', value };
+  if (typeof value === 'string') return { kind: 'string', value };
+  if (typeof value === 'boolean') return { kind: 'boolean', value };
+  return { kind: 'other', value };
+}
+
+function expandArrays(values: any[]): any[] {
+  return values.flatMap(value => (Array.isArray(value) ? value : [value]));
+}
+
+function toRegExp(pattern: any, options: any): RegExp {
+  const flags = typeof options === 'string' ? options.replace(/[^imsu]/g, '') : undefined;
+  if (pattern instanceof RegExp) return flags ? new RegExp(pattern.source, flags) : pattern;
+  if (typeof pattern !== 'string') throw new Error('must be a string or RegExp');
+  return new RegExp(pattern, flags);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp) && !(value instanceof Date);
+}
+
+function isOperatorObject(value: any): value is Record<string, any> {
+  if (!isPlainObject(value) || getBsonType(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
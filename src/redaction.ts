@@ -0,0 +1,216 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - PII Redaction
+ */
+
+import { createHmac, getHashes } from 'crypto';
+import { RedactionPolicy, RedactionRule, RedactionAction, RedactedField, DetectedPii, PiiKind } from './types';
+import { ConfigurationError } from './errors';
+import { isBsonValue, bsonToScalar } from './bson';
+
+export const REDACTION_ACTIONS: RedactionAction[] = ['drop', 'mask', 'hash', 'tokenize'];
+
+export function validateRedactionPolicy(policy: RedactionPolicy): void {
+  if (!policy || !Array.isArray(policy.rules)) throw new ConfigurationError('redaction.rules must be an array');
+  policy.rules.forEach((rule, i) => {
+    if (!rule?.path || typeof rule.path !== 'string') throw new ConfigurationError(`redaction.rules[${i}] must have a path`);
+    if (!REDACTION_ACTIONS.includes(rule.action)) throw new ConfigurationError(`redaction.rules[${i}]: unknown action "${rule.action}"`);
+    for (const key of ['keepStart', 'keepEnd'] as const) {
+      const value = rule[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new ConfigurationError(`redaction.rules[${i}].${key} must be a non-negative integer`);
+      }
+    }
+    if (rule.maskChar !== undefined && (typeof rule.maskChar !== 'string' || rule.maskChar.length === 0)) {
+      throw new ConfigurationError(`redaction.rules[${i}].maskChar must be a non-empty string`);
+    }
+  });
+  if (policy.rules.some(rule => rule.action === 'hash' || rule.action === 'tokenize') && !policy.salt) {
+    throw new ConfigurationError('redaction.salt is required for hash and tokenize rules');
+  }
+  if (policy.algorithm !== undefined && !getHashes().includes(policy.algorithm)) {
+    throw new ConfigurationError(`unsupported redaction algorithm "${policy.algorithm}"`);
+  }
+}
+
+/**
+ * Matches a dotted path against a glob where `*` is one segment (or part of one)
+ * and `**` any number of segments. Array markers such as `[]` and `[0]` are
+ * ignored on both sides, so `contacts.phone` matches `contacts[0].phone`.
+ */
+export function matchesPathGlob(pattern: string, path: string): boolean {
+  return matchSegments(stripArrayMarkers(pattern).split('.'), stripArrayMarkers(path).split('.'));
+}
+
+function stripArrayMarkers(path: string): string {
+  return path.replace(/\[\d*\]/g, '');
+}
+
+function matchSegments(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) return path.length === 0;
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    for (let i = 0; i <= path.length; i++) {
+      if (matchSegments(rest, path.slice(i))) return true;
+    }
+    return false;
+  }
+  return path.length > 0 && matchSegment(head, path[0]) && matchSegments(rest, path.slice(1));
+}
+
+function matchSegment(pattern: string, segment: string): boolean {
+  if (!pattern.includes('*')) return pattern === segment;
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(segment);
+}
+
+/**
+ * Applies a redaction policy to documents before they are flattened, so that
+ * values nested in arrays or serialized to JSON are covered as well. Counts the
+ * values redacted per path and keeps the tokens it hands out, so tokenized
+ * values can be looked up again by whoever holds the token vault.
+ */
+export class Redactor {
+  private fields = new Map<string, RedactedField>();
+  private tokens = new Map<string, string>();
+
+  constructor(private policy: RedactionPolicy) {
+    validateRedactionPolicy(policy);
+  }
+
+  /** Returns a copy of the document with every field that matches a rule redacted. */
+  redact<T extends Record<string, any>>(doc: T): T {
+    return this.redactObject(doc, '') as T;
+  }
+
+  /** Whether a rule applies to the path or one of its parents. */
+  covers(path: string): boolean {
+    const segments = stripArrayMarkers(path).split('.');
+    return segments.some((_, i) => this.findRule(segments.slice(0, i + 1).join('.')) !== undefined);
+  }
+
+  getRedactedFields(): RedactedField[] {
+    return Array.from(this.fields.values(), field => ({ ...field })).sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /** Token vault: token to original value. */
+  getTokens(): Record<string, string> {
+    return Object.fromEntries(this.tokens);
+  }
+
+  /** Adds the counts and tokens of another run, e.g. a parallel worker's. */
+  merge(fields: RedactedField[], tokens: Record<string, string>): void {
+    for (const field of fields) this.record(field.path, field.action, field.count);
+    for (const [token, value] of Object.entries(tokens)) this.tokens.set(token, value);
+  }
+
+  reset(): void {
+    this.fields.clear();
+    this.tokens.clear();
+  }
+
+  private redactObject(value: Record<string, any>, prefix: string): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const rule = this.findRule(path);
+      if (!rule) {
+        result[key] = this.redactNested(nested, path);
+        continue;
+      }
+      if (nested === null || nested === undefined) {
+        result[key] = nested;
+        continue;
+      }
+      this.record(path, rule.action, 1);
+      if (rule.action !== 'drop') result[key] = this.apply(rule, nested);
+    }
+    return result;
+  }
+
+  private redactNested(value: any, path: string): any {
+    if (Array.isArray(value)) return value.map(item => this.redactNested(item, path));
+    if (value === null || typeof value !== 'object' || isBsonValue(value)) return value;
+    return this.redactObject(value, path);
+  }
+
+  private findRule(path: string): RedactionRule | undefined {
+    return this.policy.rules.find(rule => matchesPathGlob(rule.path, path));
+  }
+
+  private apply(rule: RedactionRule, value: any): any {
+    if (Array.isArray(value)) return value.map(item => this.apply(rule, item));
+    if (value === null || value === undefined) return value;
+    const text = toText(value);
+    switch (rule.action) {
+      case 'mask': {
+        const keepStart = rule.keepStart ?? 0;
+        const keepEnd = rule.keepEnd ?? 4;
+        if (keepStart + keepEnd >= text.length) return (rule.maskChar ?? '*').repeat(text.length);
+        return text.slice(0, keepStart) + (rule.maskChar ?? '*').repeat(text.length - keepStart - keepEnd) + text.slice(text.length - keepEnd);
+      }
+      case 'hash':
+        return createHmac(this.policy.algorithm ?? 'sha256', this.policy.salt!).update(text).digest('hex');
+      case 'tokenize': {
+        const token = (this.policy.tokenPrefix ?? 'tok_') + createHmac('sha256', this.policy.salt!).update(`token:${text}`).digest('hex').slice(0, 16);
+        this.tokens.set(token, text);
+        return token;
+      }
+      default:
+        return value;
+    }
+  }
+
+  private record(path: string, action: RedactionAction, count: number): void {
+    const field = this.fields.get(path);
+    if (field) field.count += count;
+    else this.fields.set(path, { path, action, count });
+  }
+}
+
+function toText(value: any): string {
+  if (isBsonValue(value)) value = bsonToScalar(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+const PHONE_PATTERN = /^(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]\d{3,4}$|^\+\d{7,15}$/;
+
+const PII_DETECTORS: Array<{ kind: PiiKind; test: (text: string) => boolean }> = [
+  { kind: 'email', test: text => /[^\s@"'<>]+@[^\s@"'<>]+\.[a-z]{2,}/i.test(text) },
+  { kind: 'card', test: text => (text.match(/\b(?:\d[ -]?){12,18}\d\b/g) ?? []).some(match => passesLuhn(match.replace(/\D/g, ''))) },
+  { kind: 'ssn', test: text => /\b\d{3}-\d{2}-\d{4}\b/.test(text) },
+  { kind: 'phone', test: text => PHONE_PATTERN.test(text.trim()) }
+];
+
+/** Flags columns whose string values look like email addresses, phone numbers, card numbers or US SSNs. */
+export function detectPii(rows: Record<string, any>[], columns: string[]): DetectedPii[] {
+  const detected: DetectedPii[] = [];
+  for (const column of columns) {
+    const kinds = new Set<PiiKind>();
+    let matchingRows = 0;
+    for (const row of rows) {
+      const value = row[column];
+      if (typeof value !== 'string') continue;
+      const matches = PII_DETECTORS.filter(detector => detector.test(value));
+      if (matches.length === 0) continue;
+      matchingRows++;
+      matches.forEach(detector => kinds.add(detector.kind));
+    }
+    if (matchingRows > 0) {
+      detected.push({ column, kinds: PII_DETECTORS.map(detector => detector.kind).filter(kind => kinds.has(kind)), rows: matchingRows });
+    }
+  }
+  return detected;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
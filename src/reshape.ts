@@ -0,0 +1,190 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Pivot / Unpivot
+ */
+
+import { AggregateSpec, TableColumn, TableData } from './types';
+import { ConfigurationError, ValidationError } from './errors';
+import { GroupAggregator } from './aggregate';
+import { ColumnTracker } from './columns';
+import { mergeValueTypes } from './transformers';
+import { normalizeBsonValues } from './bson';
+
+export interface PivotOptions {
+  /** Columns that identify an output row. */
+  index: string[];
+  /** Column whose distinct values become new columns. */
+  columns: string;
+  /** Column whose values fill the new columns. */
+  values: string;
+  /** How to combine several values for the same row and key. Defaults to `sum`. */
+  aggregate?: AggregateSpec['op'];
+  /** Prefix for generated column names, e.g. `qty_` gives `qty_2024-01`. */
+  prefix?: string;
+  /** Value for missing combinations. Defaults to null. */
+  fillValue?: any;
+  /** Maximum number of generated columns. Defaults to 100. */
+  maxColumns?: number;
+  /** Sort generated columns by key instead of first appearance. Defaults to true. */
+  sortColumns?: boolean;
+}
+
+export interface UnpivotOptions {
+  /** Columns kept on every output row. */
+  index: string[];
+  /** Columns to turn into rows. Defaults to every non-index column. */
+  columns?: string[];
+  keyColumn?: string;
+  valueColumn?: string;
+  /** Skip cells that are null. */
+  dropNulls?: boolean;
+}
+
+/**
+ * Turns long rows into a wide table with one column per distinct value of
+ * `options.columns`. Throws a ValidationError instead of producing more than
+ * `maxColumns` generated columns.
+ */
+export function pivotTable(data: TableData, options: PivotOptions): TableData {
+  const aggregate = options.aggregate ?? 'sum';
+  const maxColumns = options.maxColumns ?? 100;
+  const prefix = options.prefix ?? '';
+  requireColumns(data, [...options.index, options.columns, options.values]);
+
+  const keys: string[] = [];
+  const seen = new Map<string, string>();
+  for (const row of data.rows) {
+    const key = pivotKey(row[options.columns]);
+    const identity = pivotIdentity(row[options.columns]);
+    const previous = seen.get(key);
+    if (previous !== undefined && previous !== identity) {
+      throw new ValidationError(`pivot values ${previous} and ${identity} of "${options.columns}" would both become column "${prefix + key}"; convert them to one type first`, options.columns);
+    }
+    if (previous !== undefined) continue;
+    seen.set(key, identity);
+    keys.push(key);
+    if (keys.length > maxColumns) {
+      throw new ValidationError(`pivot on "${options.columns}" would create more than ${maxColumns} columns; raise maxColumns or filter the rows first`, options.columns);
+    }
+  }
+  if (options.sortColumns !== false) keys.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const names = keys.map(key => prefix + key);
+  const clash = names.find(name => options.index.includes(name));
+  if (clash) throw new ConfigurationError(`pivot column "${clash}" collides with an index column; set a prefix`);
+
+  const aggregator = new GroupAggregator({
+    groupBy: [...options.index, options.columns],
+    aggregates: [{ name: '__value', op: aggregate, field: options.values }]
+  });
+  for (const row of data.rows) aggregator.add(row);
+  const grouped = aggregator.getResult();
+
+  const wide = new Map<string, Record<string, any>>();
+  for (const row of grouped.rows) {
+    const indexValues = options.index.map(column => row[column]);
+    const rowKey = JSON.stringify(normalizeBsonValues(indexValues));
+    let target = wide.get(rowKey);
+    if (!target) {
+      target = {};
+      options.index.forEach((column, i) => { target![column] = indexValues[i]; });
+      names.forEach(name => { target![name] = options.fillValue ?? null; });
+      wide.set(rowKey, target);
+    }
+    target[prefix + pivotKey(row[options.columns])] = row.__value;
+  }
+
+  const rows = Array.from(wide.values());
+  const tracker = new ColumnTracker();
+  rows.forEach(row => tracker.observe(row));
+  const tracked = new Map(tracker.getColumns().map(column => [column.name, column]));
+  const valueType = grouped.columns.find(column => column.name === '__value')?.type ?? 'unknown';
+  const columns: TableColumn[] = rows.length === 0 ? [] : [
+    ...options.index.map(name => ({ ...tracked.get(name)!, type: columnType(data, name) })),
+    ...names.map(name => ({ ...tracked.get(name)!, type: valueType }))
+  ];
+
+  return reshapedTable(data, rows, columns, {
+    operation: 'pivot',
+    index: [...options.index],
+    keyColumn: options.columns,
+    valueColumn: options.values,
+    aggregate
+  });
+}
+
+/** Turns columns into key/value rows, the inverse of pivotTable. */
+export function unpivotTable(data: TableData, options: UnpivotOptions): TableData {
+  const keyColumn = options.keyColumn ?? 'key';
+  const valueColumn = options.valueColumn ?? 'value';
+  const valueColumns = options.columns ?? data.columns.map(column => column.name).filter(name => !options.index.includes(name));
+  requireColumns(data, [...options.index, ...valueColumns]);
+  if (options.index.includes(keyColumn) || options.index.includes(valueColumn)) {
+    throw new ConfigurationError(`unpivot key/value column names must differ from the index columns`);
+  }
+
+  const rows: Record<string, any>[] = [];
+  for (const row of data.rows) {
+    for (const column of valueColumns) {
+      const value = row[column] ?? null;
+      if (value === null && options.dropNulls) continue;
+      const out: Record<string, any> = {};
+      for (const name of options.index) out[name] = row[name] ?? null;
+      out[keyColumn] = column;
+      out[valueColumn] = value;
+      rows.push(out);
+    }
+  }
+
+  const valueType = valueColumns.reduce<string | undefined>((type, name) => {
+    const columnTypeName = columnType(data, name);
+    return columnTypeName === 'unknown' ? type : mergeValueTypes(type, columnTypeName);
+  }, undefined);
+  const columns: TableColumn[] = rows.length === 0 ? [] : [
+    ...options.index.map(name => ({ name, type: columnType(data, name), required: rows.every(row => row[name] !== null) })),
+    { name: keyColumn, type: 'string', required: true },
+    { name: valueColumn, type: valueType ?? 'unknown', required: rows.every(row => row[valueColumn] !== null) }
+  ];
+
+  return reshapedTable(data, rows, columns, { operation: 'unpivot', index: [...options.index], keyColumn, valueColumn });
+}
+
+function reshapedTable(
+  data: TableData,
+  rows: Record<string, any>[],
+  columns: TableColumn[],
+  reshape: NonNullable<TableData['metadata']['reshape']>
+): TableData {
+  return {
+    columns,
+    rows,
+    metadata: {
+      ...data.metadata,
+      totalRows: rows.length,
+      totalColumns: columns.length,
+      generatedAt: new Date().toISOString(),
+      reshape
+    }
+  };
+}
+
+function requireColumns(data: TableData, names: string[]): void {
+  if (data.rows.length === 0) return;
+  const known = new Set([...data.columns.map(column => column.name), ...Object.keys(data.rows[0])]);
+  const missing = names.filter(name => !known.has(name));
+  if (missing.length > 0) throw new ConfigurationError(`unknown column(s): ${missing.join(', ')}`);
+}
+
+function columnType(data: TableData, name: string): string {
+  return data.columns.find(column => column.name === name)?.type ?? 'unknown';
+}
+
+function pivotKey(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  const normalized = normalizeBsonValues(value);
+  return typeof normalized === 'object' ? JSON.stringify(normalized) : String(normalized);
+}
+
+/** Tells apart values with the same pivotKey, such as `1` and `'1'`. */
+function pivotIdentity(value: any): string {
+  return JSON.stringify(normalizeBsonValues(value ?? null));
+}
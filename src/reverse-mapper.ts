@@ -0,0 +1,133 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Reverse Mapper (Table Rows to Documents)
+ */
+
+import { MappingConfig, MongoDBDocument, TableData } from './types';
+import { ConfigurationError, validateMappingConfig } from './errors';
+import { reverseTransformValue, setNestedValue } from './transformers';
+import { ArrayPathNode, ARRAY_INDEX_KEY, parseArrayPaths } from './array-expand';
+
+export interface ReverseMappingOptions {
+  /** Keep null cells as explicit null fields instead of omitting them. */
+  keepNulls?: boolean;
+}
+
+/**
+ * Rebuilds nested documents from table rows using the same MappingConfig that
+ * produced them. In array_expand mode rows are regrouped by `_id`; array elements
+ * are told apart by their `$index` column when present, otherwise by content.
+ */
+export class TableToMongoDBMapper {
+  private config: MappingConfig;
+  private options: ReverseMappingOptions;
+  private arrayPaths: ArrayPathNode[];
+
+  constructor(config: MappingConfig, options: ReverseMappingOptions = {}) {
+    validateMappingConfig(config);
+    if (config.mongoMappingType === 'normalize' || config.mongoMappingType === 'aggregate') {
+      throw new ConfigurationError(`reverse mapping does not support ${config.mongoMappingType} mode`);
+    }
+    this.config = config;
+    this.options = options;
+    this.arrayPaths = parseArrayPaths(config.mongoArrayFields ?? (config.mongoArrayField ? [config.mongoArrayField] : []));
+  }
+
+  public unmap(data: TableData | Record<string, any>[]): MongoDBDocument[] {
+    const rows = Array.isArray(data) ? data : data.rows;
+    const records = rows.map(row => this.toSourceRecord(row));
+
+    if (this.config.mongoMappingType !== 'array_expand') {
+      return records.map(record => this.assemble([record], []) as MongoDBDocument);
+    }
+
+    const groups = new Map<any, Record<string, any>[]>();
+    records.forEach((record, i) => {
+      const key = record._id ?? Symbol(`row${i}`);
+      const groupKey = typeof key === 'object' ? JSON.stringify(key) : key;
+      if (!groups.has(groupKey)) groups.set(groupKey, []);
+      groups.get(groupKey)!.push(record);
+    });
+    return Array.from(groups.values()).map(group => this.assemble(group, this.arrayPaths) as MongoDBDocument);
+  }
+
+  private toSourceRecord(row: Record<string, any>): Record<string, any> {
+    const record: Record<string, any> = {};
+    if (this.config.options?.includeAllFields || this.config.fieldMappings.length === 0) {
+      for (const [key, value] of Object.entries(row)) record[key] = reverseTransformValue(this.toNull(value));
+      return record;
+    }
+
+    for (const mapping of this.config.fieldMappings) {
+      if (!hasOwn(row, mapping.documentField)) continue;
+      record[mapping.databaseField] = reverseTransformValue(this.toNull(row[mapping.documentField]), mapping.transform);
+    }
+    return record;
+  }
+
+  private toNull(value: any): any {
+    const nullValue = this.config.options?.nullValue;
+    return nullValue !== undefined && value === nullValue ? null : value;
+  }
+
+  private assemble(records: Record<string, any>[], nodes: ArrayPathNode[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const record of records) {
+      for (const [key, value] of Object.entries(record)) {
+        if (key.includes('[]') || key === ARRAY_INDEX_KEY || hasOwn(result, key)) continue;
+        if (value === null && !this.options.keepNulls) continue;
+        result[key] = value;
+      }
+    }
+
+    const doc: Record<string, any> = {};
+    for (const [key, value] of Object.entries(result)) setNestedValue(doc, key, value);
+
+    for (const node of nodes) {
+      const elements = new Map<string, Record<string, any>[]>();
+      const primitives = new Map<string, any>();
+      const prefix = `${node.path}[].`;
+
+      for (const record of records) {
+        if (hasOwn(record, `${node.path}[]`)) {
+          const value = record[`${node.path}[]`];
+          if (value === null || value === undefined) continue;
+          const index = record[prefix + ARRAY_INDEX_KEY];
+          primitives.set(index !== undefined ? String(index) : JSON.stringify(value), value);
+          continue;
+        }
+
+        const element: Record<string, any> = {};
+        for (const [key, value] of Object.entries(record)) {
+          if (key.startsWith(prefix)) element[key.slice(prefix.length)] = value;
+        }
+        if (Object.values(element).every(value => value === null || value === undefined)) continue;
+
+        const identity = ARRAY_INDEX_KEY in element
+          ? String(element[ARRAY_INDEX_KEY])
+          : JSON.stringify(Object.entries(element).filter(([key]) => !key.includes('[]')));
+        if (!elements.has(identity)) elements.set(identity, []);
+        elements.get(identity)!.push(element);
+      }
+
+      const array = primitives.size > 0
+        ? Array.from(primitives.values())
+        : Array.from(elements.values()).map(group => this.assemble(group, node.children));
+      setNestedValue(doc, node.path, array);
+    }
+
+    return doc;
+  }
+}
+
+export function createReverseMapper(config: MappingConfig, options?: ReverseMappingOptions): TableToMongoDBMapper {
+  return new TableToMongoDBMapper(config, options);
+}
+
+export function mapTableToMongoDB(data: TableData | Record<string, any>[], config: MappingConfig, options?: ReverseMappingOptions): MongoDBDocument[] {
+  return createReverseMapper(config, options).unmap(data);
+}
+
+/** Row keys are data, so `toString` or `constructor` must not match Object members. */
+function hasOwn(record: Record<string, any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
@@ -0,0 +1,134 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Table Schema Validation
+ */
+
+import { TableSchema, ColumnSchema, TableColumn } from './types';
+import { ConfigurationError, ValidationError } from './errors';
+import { getValueType } from './transformers';
+import { bsonToScalar } from './bson';
+
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  string: ['string', 'objectId', 'uuid', 'binary', 'decimal'],
+  integer: ['integer', 'long'],
+  long: ['integer', 'long'],
+  float: ['integer', 'long', 'float', 'decimal'],
+  number: ['integer', 'long', 'float', 'decimal'],
+  decimal: ['integer', 'long', 'float', 'decimal'],
+  boolean: ['boolean'],
+  date: ['date', 'timestamp'],
+  array: ['array', 'string'],
+  object: ['object', 'string']
+};
+
+/** Types a schema column may declare; the BSON ones only accept values of that exact type. */
+export const SCHEMA_COLUMN_TYPES = [...Object.keys(COMPATIBLE_TYPES), 'objectId', 'uuid', 'binary', 'timestamp'];
+
+export function validateTableSchema(schema: TableSchema): void {
+  if (!schema || !Array.isArray(schema.columns)) throw new ConfigurationError('schema.columns must be an array');
+  const names = new Set<string>();
+  for (const column of schema.columns) {
+    if (!column.name) throw new ConfigurationError('schema columns must have a name');
+    if (names.has(column.name)) throw new ConfigurationError(`duplicate schema column: ${column.name}`);
+    names.add(column.name);
+    if (column.type !== undefined && !SCHEMA_COLUMN_TYPES.includes(column.type)) {
+      throw new ConfigurationError(`unknown type "${column.type}" for schema column ${column.name}; expected one of ${SCHEMA_COLUMN_TYPES.join(', ')}`);
+    }
+    if (column.pattern !== undefined) {
+      try {
+        new RegExp(column.pattern);
+      } catch {
+        throw new ConfigurationError(`invalid pattern for schema column ${column.name}: ${column.pattern}`);
+      }
+    }
+  }
+}
+
+/**
+ * Builds the table columns in declared order. Declared types win over inferred
+ * ones; undeclared columns are appended when `additionalColumns` is enabled.
+ */
+export function schemaToColumns(schema: TableSchema, inferred: TableColumn[]): TableColumn[] {
+  const inferredByName = new Map(inferred.map(column => [column.name, column]));
+  const columns: TableColumn[] = schema.columns.map(column => ({
+    name: column.name,
+    type: column.type ?? inferredByName.get(column.name)?.type ?? 'unknown',
+    required: column.nullable === false
+  }));
+
+  if (schema.additionalColumns) {
+    const declared = new Set(schema.columns.map(column => column.name));
+    columns.push(...inferred.filter(column => !declared.has(column.name)));
+  }
+  return columns;
+}
+
+/**
+ * Returns the row with its keys in schema order, dropping undeclared keys unless
+ * `additionalColumns` is enabled. Missing columns get `nullValue`.
+ */
+export function projectRow(row: Record<string, any>, schema: TableSchema, nullValue: any = null): Record<string, any> {
+  const projected: Record<string, any> = {};
+  for (const column of schema.columns) projected[column.name] = row[column.name] ?? nullValue;
+  if (schema.additionalColumns) {
+    for (const [key, value] of Object.entries(row)) {
+      if (!(key in projected)) projected[key] = value;
+    }
+  }
+  return projected;
+}
+
+/** Validates a mapped row; cells equal to `nullValue` count as missing. */
+export function validateRow(
+  row: Record<string, any>,
+  schema: TableSchema,
+  context: { rowIndex?: number; documentId?: string } = {},
+  nullValue?: any
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const column of schema.columns) {
+    const value = nullValue !== undefined && row[column.name] === nullValue ? null : row[column.name];
+    const message = validateValue(value, column);
+    if (message) {
+      const location = context.rowIndex !== undefined ? ` (row ${context.rowIndex})` : '';
+      errors.push(new ValidationError(`column "${column.name}" ${message}${location}`, column.name, row[column.name], context));
+    }
+  }
+  return errors;
+}
+
+function validateValue(value: any, column: ColumnSchema): string | undefined {
+  if (value === null || value === undefined) {
+    return column.nullable === false ? 'is required' : undefined;
+  }
+
+  const valueType = getValueType(value);
+  if (column.type && !isCompatible(value, valueType, column.type)) {
+    return `expected ${column.type} but got ${valueType}`;
+  }
+
+  const scalar = bsonToScalar(value);
+  if (column.enum && !column.enum.includes(scalar)) {
+    return `must be one of ${column.enum.map(item => JSON.stringify(item)).join(', ')}`;
+  }
+  if (column.pattern !== undefined && !new RegExp(column.pattern).test(String(scalar))) {
+    return `does not match pattern ${column.pattern}`;
+  }
+  if (column.min !== undefined || column.max !== undefined) {
+    const num = Number(scalar);
+    if (isNaN(num)) return 'must be numeric to check min/max';
+    if (column.min !== undefined && num < column.min) return `must be >= ${column.min}`;
+    if (column.max !== undefined && num > column.max) return `must be <= ${column.max}`;
+  }
+  if (typeof scalar === 'string') {
+    if (column.minLength !== undefined && scalar.length < column.minLength) return `must be at least ${column.minLength} characters`;
+    if (column.maxLength !== undefined && scalar.length > column.maxLength) return `must be at most ${column.maxLength} characters`;
+  }
+  return undefined;
+}
+
+function isCompatible(value: any, valueType: string, declared: string): boolean {
+  if (valueType === declared) return true;
+  if (declared === 'date' && typeof value === 'string') return !isNaN(new Date(value).getTime());
+  const compatible = COMPATIBLE_TYPES[declared];
+  return compatible ? compatible.includes(valueType) : valueType === 'string';
+}
@@ -0,0 +1,149 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - SQL Exporter
+ */
+
+import { TableData, TableColumn, SQLDialect, ExportOptions } from './types';
+import { ConfigurationError } from './errors';
+import { BaseExporter } from './base-exporter';
+
+const SQL_TYPES: Record<SQLDialect, Record<string, string>> = {
+  postgresql: {
+    integer: 'BIGINT', long: 'BIGINT', float: 'DOUBLE PRECISION', decimal: 'NUMERIC', boolean: 'BOOLEAN',
+    date: 'TIMESTAMPTZ', timestamp: 'TIMESTAMPTZ', objectId: 'CHAR(24)', uuid: 'UUID', binary: 'BYTEA',
+    array: 'JSONB', object: 'JSONB', string: 'TEXT'
+  },
+  mysql: {
+    integer: 'BIGINT', long: 'BIGINT', float: 'DOUBLE', decimal: 'DECIMAL(38,10)', boolean: 'BOOLEAN',
+    date: 'DATETIME(3)', timestamp: 'DATETIME(3)', objectId: 'CHAR(24)', uuid: 'CHAR(36)', binary: 'LONGBLOB',
+    array: 'JSON', object: 'JSON', string: 'TEXT'
+  },
+  sqlite: {
+    integer: 'INTEGER', long: 'INTEGER', float: 'REAL', decimal: 'NUMERIC', boolean: 'INTEGER',
+    date: 'TEXT', timestamp: 'TEXT', objectId: 'TEXT', uuid: 'TEXT', binary: 'BLOB',
+    array: 'TEXT', object: 'TEXT', string: 'TEXT'
+  }
+};
+
+const NUMERIC_TYPES = ['integer', 'long', 'float', 'decimal'];
+const NUMERIC_LITERAL = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+export function getSQLType(columnType: string, dialect: SQLDialect = 'postgresql'): string {
+  return SQL_TYPES[dialect][columnType] ?? 'TEXT';
+}
+
+/**
+ * Produces `CREATE TABLE` plus batched `INSERT` statements, or a PostgreSQL
+ * `COPY ... FROM STDIN` block. The table name defaults to the source collection.
+ */
+export class SQLExporter extends BaseExporter {
+  constructor(options: ExportOptions) {
+    super(options);
+    const batchSize = options.sql?.batchSize;
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      throw new ConfigurationError('sql.batchSize must be a positive integer');
+    }
+  }
+
+  export(data: TableData): string {
+    const sql = this.options.sql || {};
+    const dialect = sql.dialect || 'postgresql';
+    if (!SQL_TYPES[dialect]) throw new ConfigurationError(`Unknown SQL dialect: ${dialect}`);
+    if (sql.statement === 'copy' && dialect !== 'postgresql') {
+      throw new ConfigurationError('COPY statements are only supported for the postgresql dialect');
+    }
+
+    const table = this.quoteIdentifier(this.resolveTableName(data), dialect);
+    const parts: string[] = [];
+    if (sql.createTable !== false && data.columns.length > 0) {
+      parts.push(this.createTableStatement(table, data.columns, dialect));
+    }
+    if (data.rows.length > 0 && data.columns.length > 0) {
+      parts.push(sql.statement === 'copy'
+        ? this.copyBlock(table, data)
+        : this.insertStatements(table, data, dialect, sql.batchSize ?? 500));
+    }
+    return parts.join('\n\n');
+  }
+
+  private resolveTableName(data: TableData): string {
+    const name = this.options.sql?.tableName || data.metadata.tableName || data.metadata.sourceCollection;
+    return name && name !== 'unknown' ? name : 'export';
+  }
+
+  private createTableStatement(table: string, columns: TableColumn[], dialect: SQLDialect): string {
+    const definitions = columns.map(col =>
+      `  ${this.quoteIdentifier(col.name, dialect)} ${getSQLType(col.type, dialect)}${col.required ? ' NOT NULL' : ''}`
+    );
+    return `CREATE TABLE IF NOT EXISTS ${table} (\n${definitions.join(',\n')}\n);`;
+  }
+
+  private insertStatements(table: string, data: TableData, dialect: SQLDialect, batchSize: number): string {
+    const columnList = data.columns.map(col => this.quoteIdentifier(col.name, dialect)).join(', ');
+    const statements: string[] = [];
+
+    for (let start = 0; start < data.rows.length; start += batchSize) {
+      const values = data.rows.slice(start, start + batchSize).map(row =>
+        `  (${data.columns.map(col => this.formatLiteral(row[col.name], col, dialect)).join(', ')})`
+      );
+      statements.push(`INSERT INTO ${table} (${columnList}) VALUES\n${values.join(',\n')};`);
+    }
+    return statements.join('\n');
+  }
+
+  private copyBlock(table: string, data: TableData): string {
+    const columnList = data.columns.map(col => this.quoteIdentifier(col.name, 'postgresql')).join(', ');
+    const lines = data.rows.map(row => data.columns.map(col => this.formatCopyValue(row[col.name], col)).join('\t'));
+    return `COPY ${table} (${columnList}) FROM STDIN;\n${lines.join('\n')}\n\\.`;
+  }
+
+  private quoteIdentifier(name: string, dialect: SQLDialect): string {
+    const quote = dialect === 'mysql' ? '`' : '"';
+    return quote + name.split(quote).join(quote + quote) + quote;
+  }
+
+  private formatLiteral(value: any, column: TableColumn, dialect: SQLDialect): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'number' && !Number.isFinite(value)) return 'NULL';
+    if (typeof value === 'boolean') {
+      if (dialect === 'sqlite') return value ? '1' : '0';
+      return value ? 'TRUE' : 'FALSE';
+    }
+
+    const formatted = this.formatValue(value);
+    if (NUMERIC_TYPES.includes(column.type) && NUMERIC_LITERAL.test(formatted)) return formatted;
+    if (column.type === 'binary') {
+      const hex = Buffer.from(formatted, 'base64').toString('hex');
+      return dialect === 'postgresql' ? `'\\x${hex}'` : `X'${hex}'`;
+    }
+    if ((column.type === 'date' || column.type === 'timestamp') && dialect === 'mysql') {
+      return this.quoteString(formatMySQLDateTime(formatted), dialect);
+    }
+    return this.quoteString(formatted, dialect);
+  }
+
+  private quoteString(value: string, dialect: SQLDialect): string {
+    let escaped = value.split("'").join("''");
+    if (dialect === 'mysql') escaped = escaped.replace(/\\/g, '\\\\');
+    return `'${escaped}'`;
+  }
+
+  private formatCopyValue(value: any, column: TableColumn): string {
+    if (value === null || value === undefined) return '\\N';
+    if (typeof value === 'number' && !Number.isFinite(value)) return '\\N';
+    if (typeof value === 'boolean') return value ? 't' : 'f';
+
+    let formatted = this.formatValue(value);
+    if (column.type === 'binary') formatted = '\\x' + Buffer.from(formatted, 'base64').toString('hex');
+    return formatted
+      .replace(/\\/g, '\\\\')
+      .replace(/\t/g, '\\t')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r');
+  }
+}
+
+function formatMySQLDateTime(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toISOString().replace('T', ' ').replace('Z', '');
+}
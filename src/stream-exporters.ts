@@ -0,0 +1,198 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Streaming Exporters
+ */
+
+import { Writable } from 'stream';
+import { TableData, TableColumn, ExportOptions, RowBatch } from './types';
+import { ConfigurationError, ExportError, ValidationError } from './errors';
+import { CSVExporter, ArrayExporter } from './exporters';
+
+export interface StreamExporter {
+  writeHeader(columns: TableColumn[]): Promise<void>;
+  writeRows(rows: Record<string, any>[]): Promise<void>;
+  end(metadata?: Partial<TableData['metadata']>): Promise<void>;
+}
+
+export interface StreamExportResult {
+  rowsWritten: number;
+  columns: TableColumn[];
+}
+
+abstract class BaseStreamExporter implements StreamExporter {
+  protected columns: TableColumn[] = [];
+  protected rowsWritten = 0;
+  private headerWritten = false;
+  private ended = false;
+  /** The stream's error, rethrown by every later write. */
+  private failure?: ExportError;
+  /** Rejects the write or finish that is waiting on the stream, if any. */
+  private pending?: (error: ExportError) => void;
+
+  /** Listens for stream errors from the start, so a failure between writes cannot go unhandled. */
+  constructor(protected stream: Writable, protected options: ExportOptions, private endStream: boolean = true) {
+    stream.on('error', error => {
+      this.failure = this.failure ?? new ExportError(error.message, this.options.format);
+      this.pending?.(this.failure);
+    });
+  }
+
+  async writeHeader(columns: TableColumn[]): Promise<void> {
+    if (this.headerWritten) throw new ExportError('header has already been written', this.options.format);
+    this.columns = columns;
+    this.headerWritten = true;
+    await this.write(this.formatHeader(columns));
+  }
+
+  async writeRows(rows: Record<string, any>[]): Promise<void> {
+    if (!this.headerWritten) throw new ExportError('writeHeader() must be called before writeRows()', this.options.format);
+    if (this.ended) throw new ExportError('stream has already been ended', this.options.format);
+    if (rows.length === 0) return;
+    const chunk = rows.map(row => this.formatRow(row, this.rowsWritten++)).join('');
+    await this.write(chunk);
+  }
+
+  async end(metadata?: Partial<TableData['metadata']>): Promise<void> {
+    if (this.ended) return;
+    if (!this.headerWritten) await this.writeHeader([]);
+    this.ended = true;
+    await this.write(this.formatFooter(metadata));
+    if (this.endStream) await this.finish();
+  }
+
+  protected abstract formatHeader(columns: TableColumn[]): string;
+  protected abstract formatRow(row: Record<string, any>, index: number): string;
+  protected abstract formatFooter(metadata?: Partial<TableData['metadata']>): string;
+
+  /** Writes a chunk and waits for `drain` when the stream is full. */
+  private async write(chunk: string): Promise<void> {
+    if (this.failure) throw this.failure;
+    if (chunk === '' || this.stream.write(chunk, (this.options.encoding || 'utf-8') as BufferEncoding)) return;
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        this.pending = undefined;
+        resolve();
+      };
+      this.pending = error => {
+        this.stream.removeListener('drain', onDrain);
+        reject(error);
+      };
+      this.stream.once('drain', onDrain);
+    });
+  }
+
+  private async finish(): Promise<void> {
+    if (this.failure) throw this.failure;
+    await new Promise<void>((resolve, reject) => {
+      this.pending = reject;
+      this.stream.end(() => {
+        this.pending = undefined;
+        resolve();
+      });
+    });
+  }
+}
+
+export class CSVStreamExporter extends BaseStreamExporter {
+  private formatter = new CSVExporter(this.options);
+
+  protected formatHeader(columns: TableColumn[]): string {
+    const header = this.options.headers !== false && columns.length > 0 ? this.formatter.formatHeaderLine(columns) : '';
+    return this.formatter.preamble + header;
+  }
+
+  protected formatRow(row: Record<string, any>, index: number): string {
+    const line = this.formatter.formatRowLine(row, this.columns);
+    return index === 0 && this.options.headers === false ? line : this.formatter.lineEnding + line;
+  }
+
+  protected formatFooter(): string { return ''; }
+}
+
+export class JSONStreamExporter extends BaseStreamExporter {
+  protected formatHeader(columns: TableColumn[]): string {
+    if (this.options.headers === false) return '[';
+    return `{"columns":${JSON.stringify(columns)},"data":[`;
+  }
+
+  protected formatRow(row: Record<string, any>, index: number): string {
+    return (index === 0 ? '\n' : ',\n') + JSON.stringify(row);
+  }
+
+  protected formatFooter(metadata?: Partial<TableData['metadata']>): string {
+    const close = this.rowsWritten > 0 ? '\n]' : ']';
+    if (this.options.headers === false) return close;
+    const meta = { ...metadata, totalRows: this.rowsWritten, totalColumns: this.columns.length };
+    return `${close},"metadata":${JSON.stringify(meta)}}`;
+  }
+}
+
+export class ArrayStreamExporter extends BaseStreamExporter {
+  private formatter = new ArrayExporter(this.options);
+
+  protected formatHeader(columns: TableColumn[]): string {
+    if (this.options.headers === false) return '[';
+    return `[\n${JSON.stringify(columns.map(col => col.name))}`;
+  }
+
+  protected formatRow(row: Record<string, any>, index: number): string {
+    const separator = index === 0 && this.options.headers === false ? '\n' : ',\n';
+    return separator + JSON.stringify(this.formatter.toArrayRow(row, this.columns));
+  }
+
+  protected formatFooter(): string {
+    return this.rowsWritten > 0 || this.options.headers !== false ? '\n]' : ']';
+  }
+}
+
+export function createStreamExporter(stream: Writable, options: ExportOptions, endStream: boolean = true): StreamExporter {
+  switch (options.format) {
+    case 'csv': return new CSVStreamExporter(stream, options, endStream);
+    case 'json': return new JSONStreamExporter(stream, options, endStream);
+    case 'array': return new ArrayStreamExporter(stream, options, endStream);
+    default: throw new ConfigurationError(`Unknown export format: ${options.format}`);
+  }
+}
+
+/**
+ * Writes the batches produced by `MongoDBToTableMapper.mapStream()` to a Writable.
+ * The header is taken from the columns of the first batch; a later batch with a
+ * field outside them throws a `ValidationError` before any of its rows are written.
+ */
+export async function exportStream(
+  batches: AsyncIterable<RowBatch>,
+  stream: Writable,
+  options: ExportOptions,
+  metadata?: Partial<TableData['metadata']>
+): Promise<StreamExportResult> {
+  const exporter = createStreamExporter(stream, options);
+  let columns: TableColumn[] | undefined;
+  let rowsWritten = 0;
+
+  for await (const batch of batches) {
+    if (!columns) {
+      columns = batch.columns;
+      await exporter.writeHeader(columns);
+    }
+    assertHeaderColumns(columns, batch.rows);
+    await exporter.writeRows(batch.rows);
+    rowsWritten += batch.rows.length;
+  }
+
+  await exporter.end(metadata);
+  return { rowsWritten, columns: columns ?? [] };
+}
+
+/** Rejects rows with fields the already written header has no column for. */
+function assertHeaderColumns(columns: TableColumn[], rows: Record<string, any>[]): void {
+  const known = new Set(columns.map(column => column.name));
+  const added = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!known.has(key)) added.add(key);
+  }
+  if (added.size === 0) return;
+  const fields = Array.from(added);
+  throw new ValidationError(
+    `${fields.join(', ')} ${fields.length === 1 ? 'is' : 'are'} not among the columns of the header, which was written from the first batch; declare a schema that includes them`,
+    fields[0]
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Transformer Registry
+ */
+
+import { createHash, getHashes } from 'crypto';
+import { ConfigIssue, FieldMapping, TransformRule } from './types';
+import { ConfigurationError } from './errors';
+import { bsonToScalar, isBsonValue } from './bson';
+
+/** Type conversions handled directly by `transformValue` rather than the registry. */
+export const CONVERSION_TRANSFORM_TYPES = ['string', 'number', 'boolean', 'date', 'array', 'object', 'custom'];
+
+export interface TransformContext {
+  fieldPath: string;
+  documentId?: string;
+  /** The flattened source document, keyed like `user.name`. */
+  document: Record<string, any>;
+}
+
+export interface TransformerParamSpec {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'any';
+  required?: boolean;
+  default?: any;
+  enum?: any[];
+  description?: string;
+}
+
+export interface TransformerDefinition<P extends Record<string, any> = Record<string, any>> {
+  name: string;
+  description?: string;
+  params?: { [K in keyof P]-?: TransformerParamSpec };
+  /** Also call the transformer for null/missing values (e.g. coalesce). */
+  handlesNull?: boolean;
+  transform: (value: any, params: P, context: TransformContext) => any;
+  /** Checks the resolved params beyond their declared types, once at config load. */
+  validate?: (params: P) => ConfigIssue[];
+  /** Inverse used by reverse mapping; values pass through unchanged when omitted. */
+  reverse?: (value: any, params: P) => any;
+}
+
+/**
+ * Named, parameterized transformers that field mappings refer to with
+ * `{ type: '<name>', params: {...} }`.
+ */
+export class TransformerRegistry {
+  private definitions = new Map<string, TransformerDefinition<any>>();
+
+  register<P extends Record<string, any>>(definition: TransformerDefinition<P>): this {
+    if (!definition.name || typeof definition.transform !== 'function') {
+      throw new ConfigurationError('transformers need a name and a transform function');
+    }
+    if (CONVERSION_TRANSFORM_TYPES.includes(definition.name)) {
+      throw new ConfigurationError(`transformer name "${definition.name}" is reserved`);
+    }
+    if (this.definitions.has(definition.name)) {
+      throw new ConfigurationError(`transformer "${definition.name}" is already registered`);
+    }
+    this.definitions.set(definition.name, definition);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): TransformerDefinition<any> | undefined {
+    return this.definitions.get(name);
+  }
+
+  list(): TransformerDefinition<any>[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /** Returns one message per invalid parameter, keyed by parameter name. */
+  validateParams(name: string, params: Record<string, any> = {}): ConfigIssue[] {
+    const definition = this.definitions.get(name);
+    if (!definition) return [{ path: '', message: `unknown transformer "${name}"` }];
+
+    const specs: Record<string, TransformerParamSpec> = definition.params ?? {};
+    const issues: ConfigIssue[] = [];
+    for (const [key, spec] of Object.entries(specs)) {
+      const value = params[key];
+      if (value === undefined) {
+        if (spec.required) issues.push({ path: key, message: 'is required' });
+        continue;
+      }
+      if (!matchesParamType(value, spec.type)) {
+        issues.push({ path: key, message: `must be ${spec.type}` });
+      } else if (spec.enum && !spec.enum.includes(value)) {
+        issues.push({ path: key, message: `must be one of ${spec.enum.map(option => JSON.stringify(option)).join(', ')}` });
+      }
+    }
+    for (const key of Object.keys(params)) {
+      if (!(key in specs)) issues.push({ path: key, message: `is not a parameter of "${name}"` });
+    }
+    if (issues.length === 0 && definition.validate) issues.push(...definition.validate(this.resolveParams(name, params)));
+    return issues;
+  }
+
+  /** Merges declared defaults into the rule's params. */
+  resolveParams(name: string, params: Record<string, any> = {}): Record<string, any> {
+    const resolved: Record<string, any> = {};
+    for (const [key, spec] of Object.entries<TransformerParamSpec>(this.definitions.get(name)?.params ?? {})) {
+      if (spec.default !== undefined) resolved[key] = spec.default;
+    }
+    return { ...resolved, ...params };
+  }
+}
+
+function matchesParamType(value: any, type: TransformerParamSpec['type']): boolean {
+  switch (type) {
+    case 'any': return true;
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default: return typeof value === type;
+  }
+}
+
+export const transformerRegistry = new TransformerRegistry();
+
+export function registerTransformer<P extends Record<string, any>>(definition: TransformerDefinition<P>): void {
+  transformerRegistry.register(definition);
+}
+
+export function toTransformRules(transform?: TransformRule | TransformRule[]): TransformRule[] {
+  if (!transform) return [];
+  return Array.isArray(transform) ? transform : [transform];
+}
+
+/** Registry name a rule resolves to: its type, or its `name` for custom rules without a function. */
+export function registeredTransformName(rule: TransformRule): string | undefined {
+  if (rule.type === 'custom') return rule.customTransform ? undefined : rule.name;
+  return CONVERSION_TRANSFORM_TYPES.includes(rule.type) ? undefined : rule.type;
+}
+
+/**
+ * Checks that every transform in the mappings exists and has valid params,
+ * reporting problems at paths such as `fieldMappings[1].transform[0].params.decimals`.
+ */
+export function validateTransformRules(
+  entries: Array<Pick<FieldMapping, 'transform'>> | undefined,
+  basePath = 'fieldMappings',
+  registry: TransformerRegistry = transformerRegistry
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (!Array.isArray(entries)) return issues;
+
+  entries.forEach((entry, i) => {
+    const transform = entry?.transform;
+    const rules = toTransformRules(transform);
+    rules.forEach((rule, j) => {
+      if (!rule || typeof rule.type !== 'string') return;
+      const path = `${basePath}[${i}].transform${Array.isArray(transform) ? `[${j}]` : ''}`;
+      const name = registeredTransformName(rule);
+      if (name === undefined) {
+        if (rule.type === 'custom' && !rule.customTransform && !rule.name) issues.push({ path, message: 'custom transforms need customTransform or a registered name' });
+        return;
+      }
+      if (!registry.has(name)) {
+        issues.push({
+          path: `${path}.${rule.type === 'custom' ? 'name' : 'type'}`,
+          message: `unknown transform "${name}"`
+        });
+        return;
+      }
+      for (const issue of registry.validateParams(name, rule.params)) {
+        issues.push({ path: `${path}.params.${issue.path}`, message: issue.message });
+      }
+    });
+  });
+  return issues;
+}
+
+function toText(value: any): string {
+  if (isBsonValue(value)) value = bsonToScalar(value);
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: any): number {
+  const num = typeof value === 'number' ? value : Number(toText(value));
+  if (isNaN(num)) throw new Error(`"${toText(value)}" is not a number`);
+  return num;
+}
+
+function validatePattern(pattern: string, flags: string): ConfigIssue[] {
+  try {
+    new RegExp(pattern, flags);
+    return [];
+  } catch (error) {
+    return [{ path: 'pattern', message: `is not a valid regular expression with flags "${flags}": ${(error as Error).message}` }];
+  }
+}
+
+function contextValue(context: TransformContext, field: string): any {
+  const value = context.document[field];
+  return isBsonValue(value) ? bsonToScalar(value) : value;
+}
+
+transformerRegistry
+  .register<{ side: string }>({
+    name: 'trim',
+    description: 'Removes surrounding whitespace',
+    params: { side: { type: 'string', enum: ['both', 'start', 'end'], default: 'both' } },
+    transform: (value, { side }) => {
+      const text = toText(value);
+      return side === 'start' ? text.trimStart() : side === 'end' ? text.trimEnd() : text.trim();
+    }
+  })
+  .register({ name: 'lowercase', transform: value => toText(value).toLowerCase() })
+  .register({ name: 'uppercase', transform: value => toText(value).toUpperCase() })
+  .register({
+    name: 'titlecase',
+    transform: value => toText(value).toLowerCase().replace(/(^|\s)(\S)/g, (_, space, char) => space + char.toUpperCase())
+  })
+  .register<{ pattern: string; replacement: string; flags: string }>({
+    name: 'replace',
+    description: 'Regex replace; `$1` style references are supported in the replacement',
+    params: {
+      pattern: { type: 'string', required: true },
+      replacement: { type: 'string', default: '' },
+      flags: { type: 'string', default: 'g' }
+    },
+    validate: ({ pattern, flags }) => validatePattern(pattern, flags),
+    transform: (value, { pattern, replacement, flags }) => toText(value).replace(new RegExp(pattern, flags), replacement)
+  })
+  .register<{ pattern: string; group: number; flags: string }>({
+    name: 'extract',
+    description: 'Returns a regex capture group (group 0 is the whole match), or null when nothing matches',
+    params: {
+      pattern: { type: 'string', required: true },
+      group: { type: 'integer', default: 1 },
+      flags: { type: 'string', default: '' }
+    },
+    validate: ({ pattern, flags }) => validatePattern(pattern, flags),
+    transform: (value, { pattern, group, flags }) => {
+      const match = new RegExp(pattern, flags).exec(toText(value));
+      return match ? match[group] ?? null : null;
+    }
+  })
+  .register<{ decimals: number; mode: string }>({
+    name: 'round',
+    params: {
+      decimals: { type: 'integer', default: 0 },
+      mode: { type: 'string', enum: ['round', 'floor', 'ceil'], default: 'round' }
+    },
+    transform: (value, { decimals, mode }) => {
+      const factor = Math.pow(10, decimals);
+      const fn = mode === 'floor' ? Math.floor : mode === 'ceil' ? Math.ceil : Math.round;
+      return fn(toNumber(value) * factor) / factor;
+    }
+  })
+  .register<{ decimals: number; locale: string; grouping: boolean }>({
+    name: 'formatNumber',
+    description: 'Formats a number as text with fixed decimals and locale grouping',
+    params: {
+      decimals: { type: 'integer', default: 2 },
+      locale: { type: 'string', default: 'en-US' },
+      grouping: { type: 'boolean', default: true }
+    },
+    transform: (value, { decimals, locale, grouping }) => new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+      useGrouping: grouping
+    }).format(toNumber(value))
+  })
+  .register<{ values: Record<string, any>; default: any; strict: boolean }>({
+    name: 'lookup',
+    description: 'Maps values through a table; `strict` rejects values that are not in it',
+    params: {
+      values: { type: 'object', required: true },
+      default: { type: 'any' },
+      strict: { type: 'boolean', default: false }
+    },
+    transform: (value, params) => {
+      const key = toText(value);
+      if (Object.prototype.hasOwnProperty.call(params.values, key)) return params.values[key];
+      if (params.strict) throw new Error(`"${key}" is not one of ${Object.keys(params.values).join(', ')}`);
+      return params.default !== undefined ? params.default : value;
+    },
+    reverse: (value, params) => {
+      const entry = Object.entries(params.values).find(([, mapped]) => mapped === value);
+      return entry ? entry[0] : value;
+    }
+  })
+  .register<{ algorithm: string; salt: string; encoding: string }>({
+    name: 'hash',
+    params: {
+      algorithm: { type: 'string', default: 'sha256' },
+      salt: { type: 'string', default: '' },
+      encoding: { type: 'string', enum: ['hex', 'base64'], default: 'hex' }
+    },
+    transform: (value, { algorithm, salt, encoding }) => {
+      if (!getHashes().includes(algorithm)) throw new Error(`unsupported hash algorithm "${algorithm}"`);
+      return createHash(algorithm).update(salt + toText(value)).digest(encoding as 'hex' | 'base64');
+    }
+  })
+  .register<{ keepStart: number; keepEnd: number; char: string }>({
+    name: 'mask',
+    description: 'Replaces all but the first `keepStart` and last `keepEnd` characters; values no longer than both are masked entirely',
+    params: {
+      keepStart: { type: 'integer', default: 0 },
+      keepEnd: { type: 'integer', default: 4 },
+      char: { type: 'string', default: '*' }
+    },
+    transform: (value, { keepStart, keepEnd, char }) => {
+      const text = toText(value);
+      if (keepStart + keepEnd >= text.length) return char.repeat(text.length);
+      return text.slice(0, keepStart) + char.repeat(text.length - keepStart - keepEnd) + text.slice(text.length - keepEnd);
+    }
+  })
+  .register<{ fields: string[]; default: any }>({
+    name: 'coalesce',
+    description: 'First non-empty value among the field itself and `fields`',
+    params: {
+      fields: { type: 'array', required: true },
+      default: { type: 'any' }
+    },
+    handlesNull: true,
+    transform: (value, { fields, default: fallback }, context) => {
+      for (const candidate of [value, ...fields.map(field => contextValue(context, field))]) {
+        if (candidate !== null && candidate !== undefined && candidate !== '') return candidate;
+      }
+      return fallback ?? null;
+    }
+  })
+  .register<{ template: string }>({
+    name: 'template',
+    description: 'Builds text from `{{field}}` placeholders; `{{value}}` is the mapped field',
+    params: { template: { type: 'string', required: true } },
+    handlesNull: true,
+    transform: (value, { template }, context) => template.replace(/\{\{\s*([^}\s]+)\s*\}\}/g, (_, field: string) =>
+      toText(field === 'value' ? value : contextValue(context, field))
+    )
+  });
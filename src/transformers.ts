@@ -2,8 +2,11 @@
  * MongoDB to 2D Table Mapping Skill - Data Type Transformers
  */
 
-import { TransformRule } from './types';
-import { TransformationError } from './errors';
+import { TransformRule, FieldMapping, ArrayPolicy } from './types';
+import { TransformationError, ValidationError } from './errors';
+import { getBsonType, isBsonValue, bsonToScalar, normalizeBsonValues } from './bson';
+import { transformerRegistry, registeredTransformName, toTransformRules } from './transformer-registry';
+import { findArrayPolicies, arrayPolicyColumn, arrayPolicyValues, summarizeArray, isPlainObject } from './array-policy';
 
 export const builtInTransformers: Record<string, (value: any, rule?: TransformRule) => any> = {
   string: (value: any) => {
@@ -54,22 +57,102 @@ export const builtInTransformers: Record<string, (value: any, rule?: TransformRu
   }
 };
 
-export function transformValue(value: any, rule?: TransformRule, context?: { fieldPath?: string; documentId?: string }): any {
-  if (value === null || value === undefined) return null;
+/**
+ * Applies a rule, or a pipeline of rules in order. Rule types other than the
+ * conversions in `builtInTransformers` are looked up in the transformer registry.
+ */
+export function transformValue(
+  value: any,
+  rule?: TransformRule | TransformRule[],
+  context?: { fieldPath?: string; documentId?: string; document?: Record<string, any> }
+): any {
+  if (Array.isArray(rule)) {
+    return rule.reduce((current, step) => transformValue(current, step, context), value);
+  }
+  const registered = rule ? registeredTransformName(rule) : undefined;
+  const definition = registered !== undefined ? transformerRegistry.get(registered) : undefined;
+  if ((value === null || value === undefined) && !definition?.handlesNull) return null;
   if (!rule) return value;
+  if (isBsonValue(value)) value = bsonToScalar(value);
+  const fieldPath = context?.fieldPath || 'unknown';
 
   if (rule.type === 'custom' && rule.customTransform) {
-    return rule.customTransform(value);
+    try {
+      return rule.customTransform(value);
+    } catch (error) {
+      throw new TransformationError((error as Error).message, fieldPath, value, context?.documentId);
+    }
+  }
+
+  if (registered !== undefined) {
+    if (!definition) throw new TransformationError(`Unknown transform type: ${registered}`, fieldPath, value, context?.documentId);
+    try {
+      return definition.transform(value, transformerRegistry.resolveParams(registered, rule.params), {
+        fieldPath,
+        documentId: context?.documentId,
+        document: context?.document ?? {}
+      });
+    } catch (error) {
+      throw new TransformationError((error as Error).message, fieldPath, value, context?.documentId);
+    }
   }
 
   const transformer = builtInTransformers[rule.type];
   if (!transformer) {
-    throw new TransformationError(`Unknown transform type: ${rule.type}`, context?.fieldPath || 'unknown', value, context?.documentId);
+    throw new TransformationError(`Unknown transform type: ${rule.type}`, fieldPath, value, context?.documentId);
   }
 
   return transformer(value, rule);
 }
 
+/**
+ * Reverses a transform rule so that table cells (often strings from CSV) can be
+ * written back into documents. Custom rules use `reverseTransform` when given.
+ */
+export function reverseTransformValue(value: any, rule?: TransformRule | TransformRule[]): any {
+  if (Array.isArray(rule)) {
+    return rule.reduceRight((current, step) => reverseTransformValue(current, step), value);
+  }
+  if (value === null || value === undefined) return null;
+  if (!rule) return parseJSONCell(value);
+
+  const registered = registeredTransformName(rule);
+  if (registered !== undefined) {
+    const definition = transformerRegistry.get(registered);
+    return definition?.reverse ? definition.reverse(value, transformerRegistry.resolveParams(registered, rule.params)) : value;
+  }
+
+  switch (rule.type) {
+    case 'custom':
+      return rule.reverseTransform ? rule.reverseTransform(value) : value;
+    case 'number':
+      return builtInTransformers.number(value);
+    case 'boolean':
+      return builtInTransformers.boolean(value);
+    case 'date': {
+      const numeric = typeof value === 'number' || /^-?\d+$/.test(String(value));
+      const date = rule.format === 'unix' && numeric ? new Date(Number(value) * 1000) : new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'array':
+    case 'object': {
+      const parsed = parseJSONCell(value);
+      return parsed !== value ? parsed : builtInTransformers[rule.type](value, rule);
+    }
+    default:
+      return builtInTransformers.string(value);
+  }
+}
+
+function parseJSONCell(value: any): any {
+  if (typeof value !== 'string' || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
 export function getNestedValue(obj: any, path: string): any {
   if (!obj || !path) return undefined;
   const keys = path.split('.');
@@ -87,7 +170,52 @@ export function getNestedValue(obj: any, path: string): any {
   return current;
 }
 
-export function flattenObject(obj: Record<string, any>, prefix: string = '', maxDepth: number = 10, currentDepth: number = 0): Record<string, any> {
+const UNSAFE_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Inverse of flattenObject for a single key: sets `a.b`, `a[0].b` or `a.b[2]`,
+ * creating intermediate objects and arrays as needed.
+ */
+export function setNestedValue(obj: Record<string, any>, path: string, value: any): void {
+  const tokens: (string | number)[] = [];
+  for (const part of path.split('.')) {
+    const match = /^([^[]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match) {
+      tokens.push(part);
+      continue;
+    }
+    if (match[1]) tokens.push(match[1]);
+    for (const index of match[2].match(/\d+/g) || []) tokens.push(Number(index));
+  }
+  // Paths come from table headers, which may be untrusted input.
+  const unsafe = tokens.find(token => typeof token === 'string' && UNSAFE_PATH_SEGMENTS.includes(token));
+  if (unsafe !== undefined) throw new ValidationError(`path segment "${unsafe}" is not allowed`, path);
+
+  let current: any = obj;
+  tokens.forEach((token, i) => {
+    if (i === tokens.length - 1) {
+      current[token] = value;
+      return;
+    }
+    if (current[token] === undefined || current[token] === null || typeof current[token] !== 'object') {
+      current[token] = typeof tokens[i + 1] === 'number' ? [] : {};
+    }
+    current = current[token];
+  });
+}
+
+export interface FlattenOptions {
+  arrayPolicies?: ArrayPolicy[];
+  arraySeparator?: string;
+}
+
+export function flattenObject(
+  obj: Record<string, any>,
+  prefix: string = '',
+  maxDepth: number = 10,
+  currentDepth: number = 0,
+  options: FlattenOptions = {}
+): Record<string, any> {
   if (currentDepth > maxDepth) {
     return { [prefix]: obj };
   }
@@ -99,21 +227,14 @@ export function flattenObject(obj: Record<string, any>, prefix: string = '', max
 
     if (value === null || value === undefined) {
       result[newKey] = null;
+    } else if (isBsonValue(value)) {
+      result[newKey] = value;
     } else if (typeof value === 'object' && !Array.isArray(value)) {
-      Object.assign(result, flattenObject(value, newKey, maxDepth, currentDepth + 1));
+      Object.assign(result, flattenObject(value, newKey, maxDepth, currentDepth + 1, options));
     } else if (Array.isArray(value)) {
-      if (value.length === 0) {
-        result[newKey] = [];
-      } else {
-        const firstItem = value[0];
-        if (typeof firstItem === 'object' && firstItem !== null) {
-          for (let i = 0; i < value.length; i++) {
-            Object.assign(result, flattenObject(value[i], `${newKey}[${i}]`, maxDepth, currentDepth + 1));
-          }
-        } else {
-          result[newKey] = value;
-        }
-      }
+      const policies = findArrayPolicies(newKey, options.arrayPolicies);
+      if (policies.length === 0) Object.assign(result, flattenArray(value, newKey, undefined, maxDepth, currentDepth, options));
+      for (const policy of policies) Object.assign(result, flattenArray(value, newKey, policy, maxDepth, currentDepth, options));
     } else {
       result[newKey] = value;
     }
@@ -122,15 +243,124 @@ export function flattenObject(obj: Record<string, any>, prefix: string = '', max
   return result;
 }
 
-export function inferColumnType(values: any[]): string {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined);
-  if (nonNullValues.length === 0) return 'unknown';
-  const types = new Set(nonNullValues.map(v => typeof v));
-  if (types.size === 1) {
-    const type = nonNullValues[0];
-    if (typeof type === 'number') return Number.isInteger(type) ? 'integer' : 'float';
-    return Array.from(types)[0];
-  }
-  if (types.has('object') || types.has('array')) return 'string';
+/**
+ * Without a policy, arrays whose elements are all objects become indexed columns
+ * and any other array stays a single cell.
+ */
+function flattenArray(
+  items: any[],
+  path: string,
+  policy: ArrayPolicy | undefined,
+  maxDepth: number,
+  currentDepth: number,
+  options: FlattenOptions
+): Record<string, any> {
+  if (!policy && (items.length === 0 || !items.every(isPlainObject))) return { [path]: items };
+
+  const column = policy ? arrayPolicyColumn(path, policy) : path;
+  const mode = policy?.mode ?? 'indexed';
+  const values = policy ? arrayPolicyValues(items, policy) : items;
+  const result: Record<string, any> = {};
+  const addElement = (item: any, key: string) => {
+    if (isPlainObject(item)) Object.assign(result, flattenObject(item, key, maxDepth, currentDepth + 1, options));
+    else result[key] = item ?? null;
+  };
+
+  if (mode === 'indexed') {
+    values.slice(0, policy?.maxItems).forEach((item, i) => addElement(item, `${column}[${i}]`));
+  } else if (mode === 'first' || mode === 'last') {
+    addElement(mode === 'first' ? values[0] : values[values.length - 1], column);
+  } else {
+    result[column] = summarizeArray(items, policy!, options.arraySeparator);
+  }
+  return result;
+}
+
+const BSON_COLUMN_TYPES: Record<string, string> = {
+  objectId: 'objectId',
+  date: 'date',
+  decimal: 'decimal',
+  long: 'long',
+  int: 'integer',
+  double: 'float',
+  timestamp: 'timestamp',
+  binary: 'binary',
+  uuid: 'uuid',
+  other: 'string'
+};
+
+const NUMERIC_TYPES = ['integer', 'long', 'float', 'decimal'];
+const DATE_TYPES = ['date', 'timestamp'];
+
+export function getValueType(value: any): string {
+  const bsonType = getBsonType(value);
+  if (bsonType) return BSON_COLUMN_TYPES[bsonType];
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'float';
+  return typeof value;
+}
+
+export function mergeValueTypes(current: string | undefined, next: string): string {
+  if (current === undefined || current === next) return next;
+  if (NUMERIC_TYPES.includes(current) && NUMERIC_TYPES.includes(next)) {
+    return NUMERIC_TYPES[Math.max(NUMERIC_TYPES.indexOf(current), NUMERIC_TYPES.indexOf(next))];
+  }
+  if (DATE_TYPES.includes(current) && DATE_TYPES.includes(next)) return 'date';
   return 'string';
 }
+
+export function inferColumnType(values: any[]): string {
+  let type: string | undefined;
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+    type = mergeValueTypes(type, getValueType(value));
+  }
+  return type ?? 'unknown';
+}
+
+export function normalizeRowValues(row: Record<string, any>): Record<string, any> {
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null && typeof value === 'object') row[key] = normalizeBsonValues(value);
+  }
+  return row;
+}
+
+export interface TransformObjectOptions {
+  nullValue?: string;
+  dateFormat?: string;
+  documentId?: string;
+}
+
+export function transformObject(flattenedDoc: Record<string, any>, fieldMappings: FieldMapping[], options: TransformObjectOptions = {}): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const mapping of fieldMappings) {
+    const rules = toTransformRules(mapping.transform).map(rule =>
+      rule.type === 'date' && !rule.format && options.dateFormat ? { ...rule, format: options.dateFormat } : rule
+    );
+
+    let rawValue = flattenedDoc[mapping.databaseField];
+    if ((rawValue === null || rawValue === undefined) && mapping.defaultValue !== undefined) {
+      rawValue = mapping.defaultValue;
+    }
+    if ((rawValue === null || rawValue === undefined) && mapping.required) {
+      throw new ValidationError(`required field "${mapping.databaseField}" is missing`, mapping.databaseField, rawValue, { documentId: options.documentId });
+    }
+
+    let value = transformValue(rawValue, rules.length > 0 ? rules : undefined, {
+      fieldPath: mapping.databaseField,
+      documentId: options.documentId,
+      document: flattenedDoc
+    });
+    if (value === null || value === undefined) {
+      result[mapping.documentField] = options.nullValue ?? null;
+      continue;
+    }
+    if (rules.length === 0 && typeof value === 'object' && !isBsonValue(value)) {
+      value = JSON.stringify(normalizeBsonValues(value));
+    }
+    result[mapping.documentField] = value;
+  }
+
+  return result;
+}
@@ -2,44 +2,208 @@
  * MongoDB to 2D Table Mapping Skill - Type Definitions
  */
 
-export type MongoDBMappingType = 'flatten' | 'array_expand';
+export type MongoDBMappingType = 'flatten' | 'array_expand' | 'normalize' | 'aggregate';
+
+export type ArrayExpandStrategy = 'cartesian' | 'zip';
 
 export interface FieldMapping {
   databaseField: string;
   documentField: string;
-  transform?: TransformRule;
+  /** A single rule, or a pipeline of rules applied in order. */
+  transform?: TransformRule | TransformRule[];
   required?: boolean;
   defaultValue?: any;
 }
 
+export type TransformType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'custom';
+
 export interface TransformRule {
-  type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'custom';
+  /** A conversion type, or the name of a transformer in the registry. */
+  type: TransformType | (string & {});
   format?: string;
+  /** Parameters for registered transformers. */
+  params?: Record<string, any>;
+  /** Name of a registered transform; config files use this in place of `customTransform`. */
+  name?: string;
   customTransform?: (value: any) => any;
+  reverseTransform?: (value: any) => any;
+}
+
+/** MongoDB-style query document, e.g. `{ status: { $in: ['A', 'B'] }, 'items.qty': { $gt: 0 } }`. */
+export type QueryFilter = Record<string, any>;
+
+export interface DerivedField {
+  /** Output column name. */
+  name: string;
+  /** Expression over flattened paths, e.g. `price * qty` or `concat(first, ' ', last)`. */
+  expression: string;
+  transform?: TransformRule | TransformRule[];
+}
+
+export interface AggregateSpec {
+  /** Output column name. */
+  name: string;
+  op: 'count' | 'sum' | 'avg' | 'min' | 'max' | 'countDistinct' | 'first' | 'last' | 'concat';
+  /** Mapped column to aggregate; `count` without a field counts rows. */
+  field?: string;
+  /** Separator for `concat`. Defaults to `, `. */
+  separator?: string;
+  /** Skip repeated values in `concat`. */
+  distinct?: boolean;
+}
+
+export interface AggregationConfig {
+  /** Mapped column names to group by; an empty list produces a single summary row. */
+  groupBy: string[];
+  aggregates: AggregateSpec[];
+}
+
+export interface ColumnSchema {
+  name: string;
+  type?: string;
+  nullable?: boolean;
+  enum?: any[];
+  pattern?: string;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface TableSchema {
+  columns: ColumnSchema[];
+  /** Keep columns that are not declared in the schema (appended after declared ones). */
+  additionalColumns?: boolean;
 }
 
 export interface MappingConfig {
   mongoMappingType: MongoDBMappingType;
   mongoArrayField?: string;
+  mongoArrayFields?: string[];
+  arrayExpandStrategy?: ArrayExpandStrategy;
+  sourceTableName?: string;
+  /**
+   * Documents that do not match are dropped before mapping. In array_expand mode
+   * the filter is also applied to each expanded element.
+   */
+  filter?: QueryFilter;
   fieldMappings: FieldMapping[];
+  /** Computed columns appended after the mapped fields. */
+  derivedFields?: DerivedField[];
+  /** Grouping for aggregate mode, applied to the mapped (and, with array fields, expanded) rows. */
+  aggregation?: AggregationConfig;
+  schema?: TableSchema;
+  /** Drops or obscures personal data before it is mapped. */
+  redaction?: RedactionPolicy;
   options?: MappingOptions;
 }
 
+export type RedactionAction = 'drop' | 'mask' | 'hash' | 'tokenize';
+
+export interface RedactionRule {
+  /**
+   * Flattened source path, or a glob where `*` matches one path segment and
+   * `**` any number of them, e.g. `*.email` or `**.phone`. Array markers are
+   * ignored, so `contacts.phone` covers `contacts[0].phone` and `contacts[].phone`.
+   * The first matching rule wins.
+   */
+  path: string;
+  action: RedactionAction;
+  /** mask: characters left visible at the start. Defaults to 0. */
+  keepStart?: number;
+  /** mask: characters left visible at the end. Defaults to 4. */
+  keepEnd?: number;
+  /** mask: replacement character. Defaults to `*`. */
+  maskChar?: string;
+}
+
+export interface RedactionPolicy {
+  rules: RedactionRule[];
+  /** Secret key for hash and tokenize, which both require it. Equal values give equal output for the same salt. */
+  salt?: string;
+  /** HMAC algorithm for hash. Defaults to sha256. */
+  algorithm?: string;
+  /** Defaults to `tok_`. */
+  tokenPrefix?: string;
+  /** With includeAllFields, report columns no rule covers whose values look like personal data. */
+  detectPii?: boolean;
+}
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'ssn';
+
+export interface RedactedField {
+  path: string;
+  action: RedactionAction;
+  /** Values redacted at this path. */
+  count: number;
+}
+
+export interface DetectedPii {
+  column: string;
+  kinds: PiiKind[];
+  /** Rows with at least one match in this column. */
+  rows: number;
+}
+
 export interface MappingOptions {
   includeAllFields?: boolean;
   excludeFields?: string[];
   maxDepth?: number;
   dateFormat?: string;
   nullValue?: string;
+  /** Separator for `join` array policies. Defaults to `, `. */
   arraySeparator?: string;
+  /** How arrays left in the document are turned into columns; see ArrayPolicy. */
+  arrayPolicies?: ArrayPolicy[];
   skipInvalidRows?: boolean;
+  includeArrayIndex?: boolean;
+  /** Turns column names into identifiers that SQL and BI tools accept. */
+  columnNaming?: ColumnNamingOptions;
+  /** @deprecated BSON values are now flattened to single scalar cells; this option has no effect. */
   preserveBufferFields?: boolean;
 }
 
+export type ArrayPolicyMode = 'indexed' | 'json' | 'join' | 'first' | 'last' | 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Output for the arrays at a path. Arrays without a policy keep the default:
+ * arrays of objects become indexed columns and other arrays a single cell.
+ */
+export interface ArrayPolicy {
+  /** Flattened array path or glob, e.g. `items` or `**.tags`. Every matching policy applies. */
+  path: string;
+  mode: ArrayPolicyMode;
+  /** Element sub-field to read, e.g. `price` to sum `items[].price`. */
+  field?: string;
+  /** indexed: elements after the first `maxItems` are left out. */
+  maxItems?: number;
+  /** join: overrides `arraySeparator`. */
+  separator?: string;
+  /**
+   * Output column, or prefix for indexed, first and last. Defaults to the path, or
+   * to `<path>_count` and `<path>_<mode>_<field>` for count and the aggregates.
+   */
+  column?: string;
+}
+
+export type ColumnCase = 'preserve' | 'snake' | 'camel';
+
+export interface ColumnNamingOptions {
+  /** Joins path segments in place of `.` and array markers. Defaults to `_`; ignored by camel case. */
+  separator?: string;
+  /** Defaults to preserve, which keeps the case and replaces characters other than letters, digits and `_`. */
+  case?: ColumnCase;
+  /** Longer names are cut short and end in a hash of the source path, so they stay unique. At least 16. */
+  maxLength?: number;
+  /** Names that get a trailing `_`, compared case-insensitively. Defaults to common SQL reserved words. */
+  reservedWords?: string[];
+}
+
 export interface TableColumn {
   name: string;
   type: string;
   required: boolean;
+  /** Source path of a column renamed by `columnNaming`. */
   sourceFields?: string[];
 }
 
@@ -52,32 +216,141 @@ export interface TableData {
     mappingType: MongoDBMappingType;
     sourceCollection: string;
     generatedAt: string;
+    tableName?: string;
+    parentTable?: string;
+    foreignKeys?: string[];
+    groupBy?: string[];
+    aggregates?: AggregateSpec[];
+    reshape?: {
+      operation: 'pivot' | 'unpivot';
+      index: string[];
+      keyColumn: string;
+      valueColumn: string;
+      aggregate?: AggregateSpec['op'];
+    };
+    /** Watermark range covered by an incremental run; `from` is exclusive. */
+    watermark?: { field: string; from?: WatermarkValue; to?: WatermarkValue };
+    redaction?: { fields: RedactedField[]; detected?: DetectedPii[] };
   };
 }
 
+/** A watermark as stored in checkpoints: numbers, or strings such as ISO dates and ObjectId hex. */
+export type WatermarkValue = string | number;
+
+export type TableSet = Record<string, TableData>;
+
+export interface StreamMappingOptions {
+  batchSize?: number;
+  columns?: TableColumn[];
+}
+
+export interface ParallelMappingOptions {
+  /** Worker threads to start. Defaults to the number of CPUs, at most one per chunk. */
+  workers?: number;
+  /** Documents per chunk handed to a worker. Defaults to 5000. */
+  chunkSize?: number;
+  /**
+   * Modules loaded in every worker before mapping, e.g. ones that call
+   * `registerTransformer` for transforms the config refers to by name.
+   */
+  modules?: string[];
+}
+
+export interface RowBatch {
+  rows: Record<string, any>[];
+  columns: TableColumn[];
+  documentsProcessed: number;
+}
+
+export type SQLDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export interface SQLExportOptions {
+  dialect?: SQLDialect;
+  tableName?: string;
+  statement?: 'insert' | 'copy';
+  batchSize?: number;
+  createTable?: boolean;
+}
+
+export interface CSVExportOptions {
+  /** Field delimiter, e.g. `\t` for TSV. Defaults to `,`. */
+  delimiter?: string;
+  /** Defaults to `"`. */
+  quote?: string;
+  /** `all` quotes every field (the default), `minimal` only fields that need it, `none` never quotes and relies on `escape`. */
+  quoting?: 'all' | 'minimal' | 'none';
+  /** Escapes quotes inside quoted fields, or special characters with quoting `none`. Defaults to doubling the quote. */
+  escape?: string;
+  /** Defaults to `\n`. */
+  lineEnding?: '\n' | '\r\n';
+  /** Start the output with a byte order mark so Excel detects UTF-8. */
+  bom?: boolean;
+  /** Prefix text starting with `=`, `+`, `-`, `@`, tab or CR with `'` so spreadsheets do not evaluate it as a formula. */
+  escapeFormulas?: boolean;
+}
+
+export interface XLSXExportOptions {
+  /** Sheet name for single-table exports. Defaults to the source collection. */
+  sheetName?: string;
+  /** Keep the header row visible while scrolling. Defaults to true. */
+  freezeHeader?: boolean;
+  /** Excel number format for date and timestamp cells. */
+  dateFormat?: string;
+}
+
+export interface ParquetExportOptions {
+  /** Rows per row group. Defaults to 10000. */
+  rowGroupSize?: number;
+  /** Page compression codec. Defaults to gzip. */
+  compression?: 'none' | 'gzip';
+}
+
 export interface ExportOptions {
-  format: 'csv' | 'json' | 'array';
+  format: 'csv' | 'json' | 'array' | 'sql' | 'xlsx' | 'parquet';
   filename?: string;
   encoding?: string;
   headers?: boolean;
   dateFormat?: string;
+  csv?: CSVExportOptions;
+  sql?: SQLExportOptions;
+  xlsx?: XLSXExportOptions;
+  parquet?: ParquetExportOptions;
 }
 
 export interface ProcessingStats {
   totalDocuments: number;
   processedRows: number;
   skippedRows: number;
+  skippedDocuments: number;
+  /** Documents dropped by `filter`. */
+  filteredDocuments: number;
+  /** Expanded rows dropped by `filter` in array_expand mode. */
+  filteredRows: number;
   errorCount: number;
   errors: ProcessingError[];
+  errorsByCode: Record<string, number>;
+  errorsByField: Record<string, number>;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs: number;
 }
 
 export interface ProcessingError {
   documentId: string;
+  code: string;
   field?: string;
+  rowIndex?: number;
+  value?: any;
   message: string;
   timestamp: Date;
 }
 
+export interface ConfigIssue {
+  /** Location of the problem inside the config, e.g. `fieldMappings[2].transform.type`. */
+  path: string;
+  message: string;
+}
+
 export interface MongoDBDocument {
   _id: any;
   [key: string]: any;
@@ -0,0 +1,269 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - XLSX Exporter
+ */
+
+import { deflateRawSync } from 'zlib';
+import { TableData, TableColumn, TableSet } from './types';
+import { ExportError } from './errors';
+import { BaseExporter } from './base-exporter';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const NUMERIC_TYPES = ['integer', 'long', 'float', 'decimal'];
+const DATE_TYPES = ['date', 'timestamp'];
+const NUMERIC_LITERAL = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+/** Excel keeps 15 significant digits; longer numbers are written as text so they survive intact. */
+const MAX_EXCEL_DIGITS = 15;
+const MAX_SHEET_NAME = 31;
+
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Writes Office Open XML workbooks with typed cells: numbers, booleans and
+ * dates follow `TableColumn.type`, the header row is bold and frozen, and
+ * `exportWorkbook()` puts several tables into one file, one sheet each.
+ */
+export class XLSXExporter extends BaseExporter {
+  /** Returns the workbook base64-encoded, to fit the string-based Exporter interface. */
+  export(data: TableData): string {
+    return this.exportBuffer(data).toString('base64');
+  }
+
+  exportBuffer(data: TableData): Buffer {
+    const name = this.options.xlsx?.sheetName || data.metadata.tableName || data.metadata.sourceCollection;
+    return this.exportWorkbook({ [name && name !== 'unknown' ? name : 'Sheet1']: data });
+  }
+
+  exportWorkbook(tables: TableSet): Buffer {
+    const entries = Object.entries(tables);
+    if (entries.length === 0) throw new ExportError('a workbook needs at least one sheet', 'xlsx');
+
+    const names = uniqueSheetNames(entries.map(([name]) => name));
+    const sheets = entries.map(([, data], i) => ({ name: names[i], path: `xl/worksheets/sheet${i + 1}.xml`, data }));
+    return zip([
+      { name: '[Content_Types].xml', data: xml(contentTypes(sheets.map(sheet => sheet.path))) },
+      { name: '_rels/.rels', data: xml(`<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`) },
+      { name: 'xl/workbook.xml', data: xml(workbook(names)) },
+      { name: 'xl/_rels/workbook.xml.rels', data: xml(workbookRelationships(sheets.length)) },
+      { name: 'xl/styles.xml', data: xml(this.styles()) },
+      ...sheets.map(sheet => ({ name: sheet.path, data: xml(this.worksheet(sheet.data)) }))
+    ]);
+  }
+
+  exportToFile(data: TableData, filePath: string): void {
+    require('fs').writeFileSync(filePath, this.exportBuffer(data));
+  }
+
+  private worksheet(data: TableData): string {
+    const headers = this.options.headers !== false;
+    const rows: string[] = [];
+    if (headers && data.columns.length > 0) {
+      rows.push(`<row r="1">${data.columns.map((col, i) => stringCell(cellRef(i, 1), col.name, STYLE_HEADER)).join('')}</row>`);
+    }
+    data.rows.forEach((row, index) => {
+      const rowNumber = index + (headers ? 2 : 1);
+      const cells = data.columns.map((col, i) => this.cell(cellRef(i, rowNumber), row[col.name], col)).join('');
+      rows.push(`<row r="${rowNumber}">${cells}</row>`);
+    });
+
+    const frozen = headers && this.options.xlsx?.freezeHeader !== false;
+    const view = frozen
+      ? '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>'
+      : '<sheetView workbookViewId="0"/>';
+    const cols = data.columns.length === 0 ? '' : `<cols>${this.columnWidths(data).map((width, i) =>
+      `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`;
+    return `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheetViews>${view}</sheetViews>`
+      + `<sheetFormatPr defaultRowHeight="15"/>${cols}<sheetData>${rows.join('')}</sheetData></worksheet>`;
+  }
+
+  private cell(ref: string, value: any, column: TableColumn): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+    }
+    if (DATE_TYPES.includes(column.type)) {
+      const time = value instanceof Date ? value.getTime() : Date.parse(this.formatValue(value));
+      if (!isNaN(time)) return `<c r="${ref}" s="${STYLE_DATE}"><v>${time / 86400000 + 25569}</v></c>`;
+    }
+
+    const formatted = this.formatValue(value);
+    if (NUMERIC_TYPES.includes(column.type) && NUMERIC_LITERAL.test(formatted) && significantDigits(formatted) <= MAX_EXCEL_DIGITS) {
+      return `<c r="${ref}"><v>${formatted}</v></c>`;
+    }
+    return stringCell(ref, formatted);
+  }
+
+  private columnWidths(data: TableData): number[] {
+    const sample = data.rows.slice(0, 1000);
+    return data.columns.map(col => {
+      const longest = sample.reduce((max, row) => {
+        const value = row[col.name];
+        return value === null || value === undefined ? max : Math.max(max, this.formatValue(value).length);
+      }, this.options.headers === false ? 0 : col.name.length);
+      return Math.min(60, Math.max(8, longest + 2));
+    });
+  }
+
+  private styles(): string {
+    const dateFormat = escapeXml(this.options.xlsx?.dateFormat || 'yyyy-mm-dd hh:mm:ss');
+    return `<styleSheet xmlns="${MAIN_NS}">`
+      + `<numFmts count="1"><numFmt numFmtId="164" formatCode="${dateFormat}"/></numFmts>`
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>'
+      + '<fill><patternFill patternType="solid"><fgColor rgb="FFD9E1F2"/><bgColor indexed="64"/></patternFill></fill></fills>'
+      + '<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>'
+      + '<border><left/><right/><top/><bottom style="thin"><color auto="1"/></bottom><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1"/>'
+      + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>'
+      + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>';
+  }
+}
+
+function contentTypes(sheetPaths: string[]): string {
+  const sheets = sheetPaths.map(path =>
+    `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('');
+  return '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + `${sheets}</Types>`;
+}
+
+function workbook(sheetNames: string[]): string {
+  const sheets = sheetNames.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('');
+  return `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${sheets}</sheets></workbook>`;
+}
+
+function workbookRelationships(sheetCount: number): string {
+  const relationships = Array.from({ length: sheetCount }, (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`);
+  relationships.push(`<Relationship Id="rId${sheetCount + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>`);
+  return `<Relationships xmlns="${PACKAGE_REL_NS}">${relationships.join('')}</Relationships>`;
+}
+
+function stringCell(ref: string, text: string, style?: number): string {
+  return `<c r="${ref}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/** Zero-based column index and one-based row number to an A1 reference. */
+function cellRef(column: number, row: number): string {
+  let name = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name + row;
+}
+
+/** Sheet names are limited to 31 characters, cannot contain []:*?/\ and must be unique ignoring case. */
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(raw => {
+    const base = raw.replace(/[[\]:*?/\\]/g, '_').replace(/^'+|'+$/g, '').slice(0, MAX_SHEET_NAME) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function significantDigits(literal: string): number {
+  return literal.replace(/[eE].*$/, '').replace(/[-.]/g, '').replace(/^0+/, '').length;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xml(body: string): Buffer {
+  return Buffer.from(XML_HEADER + body, 'utf-8');
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Minimal deflate-only ZIP writer; entry timestamps are fixed so output is reproducible. */
+function zip(entries: ZipEntry[]): Buffer {
+  const DOS_DATE = (1 << 5) | 1; // 1980-01-01
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, compressed);
+    directory.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...directory, end]);
+}
@@ -0,0 +1,85 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Aggregation Tests
+ */
+
+import { createMapper, aggregateTable, parseMappingConfig, ConfigurationError } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('Aggregate mode', () => {
+  const documents: MongoDBDocument[] = [
+    { _id: 1, region: 'EU', customer: 'ann', placedAt: new Date('2024-01-05'), items: [{ sku: 'A', qty: 2, price: 10 }, { sku: 'B', qty: 1, price: 2.5 }] },
+    { _id: 2, region: 'US', customer: 'bob', placedAt: new Date('2024-02-01'), items: [{ sku: 'A', qty: 1, price: 10 }] },
+    { _id: 3, region: 'EU', customer: 'ann', placedAt: new Date('2024-03-10'), items: [{ sku: 'C', qty: 4, price: { $numberDecimal: '1.25' } }] }
+  ];
+
+  const config: MappingConfig = {
+    mongoMappingType: 'aggregate',
+    mongoArrayField: 'items',
+    fieldMappings: [
+      { databaseField: 'region', documentField: 'region' },
+      { databaseField: 'customer', documentField: 'customer' },
+      { databaseField: 'placedAt', documentField: 'placed_at' },
+      { databaseField: 'items[].sku', documentField: 'sku' },
+      { databaseField: 'items[].qty', documentField: 'qty' }
+    ],
+    derivedFields: [{ name: 'amount', expression: 'items[].qty * items[].price' }],
+    aggregation: {
+      groupBy: ['region'],
+      aggregates: [
+        { name: 'lines', op: 'count' },
+        { name: 'units', op: 'sum', field: 'qty' },
+        { name: 'revenue', op: 'sum', field: 'amount' },
+        { name: 'avg_qty', op: 'avg', field: 'qty' },
+        { name: 'first_order', op: 'min', field: 'placed_at' },
+        { name: 'customers', op: 'countDistinct', field: 'customer' },
+        { name: 'skus', op: 'concat', field: 'sku', separator: '|', distinct: true },
+        { name: 'last_sku', op: 'last', field: 'sku' }
+      ]
+    }
+  };
+
+  it('should group expanded rows and compute aggregates', () => {
+    const result = createMapper(config).map(documents);
+
+    expect(result.rows).toEqual([
+      { region: 'EU', lines: 3, units: 7, revenue: 27.5, avg_qty: 7 / 3, first_order: '2024-01-05T00:00:00.000Z', customers: 1, skus: 'A|B|C', last_sku: 'C' },
+      { region: 'US', lines: 1, units: 1, revenue: 10, avg_qty: 1, first_order: '2024-02-01T00:00:00.000Z', customers: 1, skus: 'A', last_sku: 'A' }
+    ]);
+    expect(result.columns.map(col => `${col.name}:${col.type}`)).toEqual([
+      'region:string', 'lines:integer', 'units:integer', 'revenue:float', 'avg_qty:float',
+      'first_order:date', 'customers:integer', 'skus:string', 'last_sku:string'
+    ]);
+    expect(result.metadata).toMatchObject({ mappingType: 'aggregate', totalRows: 2, groupBy: ['region'] });
+    expect(result.metadata.aggregates).toHaveLength(8);
+  });
+
+  it('should produce a single summary row without groupBy and support streaming', async () => {
+    const summary: MappingConfig = {
+      ...config,
+      aggregation: { groupBy: [], aggregates: [{ name: 'orders', op: 'countDistinct', field: 'customer' }, { name: 'max_qty', op: 'max', field: 'qty' }] }
+    };
+    const batches = [];
+    for await (const batch of createMapper(summary).mapStream(documents, { batchSize: 1 })) batches.push(batch);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].rows).toEqual([{ orders: 2, max_qty: 4 }]);
+    expect(batches[0].documentsProcessed).toBe(3);
+  });
+
+  it('should aggregate an existing table', () => {
+    const table = createMapper({ ...config, mongoMappingType: 'array_expand' }).map(documents);
+    const bySku = aggregateTable(table, { groupBy: ['sku'], aggregates: [{ name: 'units', op: 'sum', field: 'qty' }] });
+    expect(bySku.rows).toEqual([{ sku: 'A', units: 3 }, { sku: 'B', units: 1 }, { sku: 'C', units: 4 }]);
+    expect(bySku.metadata.groupBy).toEqual(['sku']);
+  });
+
+  it('should validate the aggregation config', () => {
+    expect(() => createMapper({ ...config, aggregation: undefined })).toThrow(ConfigurationError);
+    expect(() => createMapper({ ...config, aggregation: { groupBy: [], aggregates: [{ name: 'x', op: 'median' as any, field: 'qty' }] } }))
+      .toThrow(/unknown aggregate function "median"/);
+    expect(() => createMapper({ ...config, aggregation: { groupBy: [], aggregates: [{ name: 'x', op: 'sum' }] } }))
+      .toThrow(/sum requires a field/);
+    expect(() => parseMappingConfig(JSON.stringify({ mongoMappingType: 'aggregate', fieldMappings: [{ databaseField: 'a', documentField: 'a' }] })))
+      .toThrow(/aggregation: is required/);
+  });
+});
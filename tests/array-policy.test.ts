@@ -0,0 +1,106 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Array Policy Tests
+ */
+
+import { createMapper, flattenObject, ConfigurationError } from '../src';
+import { ArrayPolicy, MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('Array policies', () => {
+  const order: MongoDBDocument = {
+    _id: 1,
+    tags: ['new', 'gift'],
+    items: [
+      { sku: 'A', price: 10, qty: 1 },
+      { sku: 'B', price: { $numberDecimal: '2.5' }, qty: 4 },
+      { sku: 'C', price: null, qty: 2 }
+    ]
+  };
+  const flatten = (arrayPolicies: ArrayPolicy[], arraySeparator?: string) =>
+    flattenObject(order, '', 10, 0, { arrayPolicies, arraySeparator });
+
+  it('should keep the default for arrays without a policy', () => {
+    expect(flatten([])).toEqual({
+      _id: 1,
+      tags: ['new', 'gift'],
+      'items[0].sku': 'A', 'items[0].price': 10, 'items[0].qty': 1,
+      'items[1].sku': 'B', 'items[1].price': { $numberDecimal: '2.5' }, 'items[1].qty': 4,
+      'items[2].sku': 'C', 'items[2].price': null, 'items[2].qty': 2
+    });
+  });
+
+  it('should keep mixed arrays in a single cell instead of indexing them', () => {
+    expect(flattenObject({ mixed: [{ a: 1 }, 'x', 3] })).toEqual({ mixed: [{ a: 1 }, 'x', 3] });
+  });
+
+  it('should cap indexed columns', () => {
+    expect(flatten([{ path: 'items', mode: 'indexed', maxItems: 1 }])).toEqual({
+      _id: 1, tags: ['new', 'gift'], 'items[0].sku': 'A', 'items[0].price': 10, 'items[0].qty': 1
+    });
+    expect(flatten([{ path: 'items', mode: 'indexed', field: 'sku', maxItems: 2 }])).toMatchObject({ 'items[0]': 'A', 'items[1]': 'B' });
+  });
+
+  it('should turn arrays into json, joined, first and last cells', () => {
+    expect(flatten([{ path: 'items', mode: 'json', field: 'sku' }, { path: 'tags', mode: 'join' }], ' | ')).toEqual({
+      _id: 1, tags: 'new | gift', items: '["A","B","C"]'
+    });
+    expect(flatten([{ path: 'items', mode: 'join', field: 'sku', separator: ',' }, { path: 'tags', mode: 'join' }])).toMatchObject({
+      items: 'A,B,C', tags: 'new, gift'
+    });
+    expect(flatten([{ path: 'items', mode: 'first' }, { path: 'tags', mode: 'last' }])).toEqual({
+      _id: 1, tags: 'gift', 'items.sku': 'A', 'items.price': 10, 'items.qty': 1
+    });
+  });
+
+  it('should count and aggregate a sub-field', () => {
+    expect(flatten([
+      { path: 'items', mode: 'count' },
+      { path: 'items', mode: 'sum', field: 'price' },
+      { path: 'items', mode: 'avg', field: 'qty' },
+      { path: 'items', mode: 'max', field: 'qty', column: 'largest_qty' },
+      { path: 'tags', mode: 'min' }
+    ])).toEqual({
+      _id: 1,
+      items_count: 3,
+      items_sum_price: 12.5,
+      items_avg_qty: 7 / 3,
+      largest_qty: 4,
+      tags_min: null
+    });
+  });
+
+  it('should apply policies to nested arrays by glob', () => {
+    const doc = { orders: [{ lines: [{ qty: 1 }, { qty: 2 }] }, { lines: [{ qty: 5 }] }] };
+    expect(flattenObject(doc, '', 10, 0, { arrayPolicies: [{ path: '**.lines', mode: 'sum', field: 'qty' }] })).toEqual({
+      'orders[0].lines_sum_qty': 3,
+      'orders[1].lines_sum_qty': 5
+    });
+  });
+
+  it('should keep tables narrow for variable-length arrays', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [],
+      options: {
+        includeAllFields: true,
+        arraySeparator: ';',
+        arrayPolicies: [
+          { path: 'items', mode: 'count' },
+          { path: 'items', mode: 'sum', field: 'price', column: 'total' },
+          { path: 'tags', mode: 'join' }
+        ]
+      }
+    };
+    const table = createMapper(config).map([order, { _id: 2, tags: [], items: [] }]);
+    expect(table.columns.map(column => column.name)).toEqual(['_id', 'items_count', 'tags', 'total']);
+    expect(table.rows).toEqual([
+      { _id: 1, tags: 'new;gift', items_count: 3, total: 12.5 },
+      { _id: 2, tags: '', items_count: 0, total: 0 }
+    ]);
+  });
+
+  it('should reject invalid policies', () => {
+    const config = (arrayPolicies: any): MappingConfig => ({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true, arrayPolicies } });
+    expect(() => createMapper(config([{ path: 'items', mode: 'explode' }]))).toThrow(ConfigurationError);
+    expect(() => createMapper(config([{ path: 'items', mode: 'indexed', maxItems: 0 }]))).toThrow(/maxItems/);
+  });
+});
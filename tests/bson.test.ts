@@ -0,0 +1,88 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - BSON / Extended JSON Tests
+ */
+
+import { createMapper, getBsonType, bsonToScalar, inferColumnType, flattenObject } from '../src';
+
+const objectId = (hex: string) => ({ _bsontype: 'ObjectId', buffer: Buffer.from(hex, 'hex'), toHexString: () => hex });
+const decimal = (text: string) => ({ _bsontype: 'Decimal128', bytes: Buffer.alloc(16), toString: () => text });
+const long = (text: string) => ({ _bsontype: 'Long', low: 0, high: 0, toString: () => text });
+
+describe('BSON support', () => {
+  it('should detect driver and Extended JSON types', () => {
+    expect(getBsonType(objectId('507f1f77bcf86cd799439011'))).toBe('objectId');
+    expect(getBsonType({ $oid: '507f1f77bcf86cd799439011' })).toBe('objectId');
+    expect(getBsonType({ $date: '2024-01-01T00:00:00Z' })).toBe('date');
+    expect(getBsonType({ $binary: { base64: 'AQI=', subType: '00' } })).toBe('binary');
+    expect(getBsonType({ $binary: 'AQI=', $type: '00' })).toBe('binary');
+    expect(getBsonType({ $oid: 'x', other: 1 })).toBeUndefined();
+    expect(getBsonType({ name: 'plain' })).toBeUndefined();
+  });
+
+  it('should treat malformed $timestamp values as plain objects', () => {
+    for (const malformed of [{ $timestamp: 5 }, { $timestamp: null }, { $timestamp: { t: 'soon', i: 1 } }]) {
+      expect(getBsonType(malformed)).toBeUndefined();
+      expect(bsonToScalar(malformed)).toBe(malformed);
+    }
+    const { rows } = createMapper({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } }).map([{ _id: 1, seen: { $timestamp: 5 } }]);
+    expect(rows).toEqual([{ _id: 1, 'seen.$timestamp': 5 }]);
+  });
+
+  it('should convert values to single scalars', () => {
+    expect(bsonToScalar(objectId('507f1f77bcf86cd799439011'))).toBe('507f1f77bcf86cd799439011');
+    expect(bsonToScalar({ $date: { $numberLong: '1704067200000' } })).toBe('2024-01-01T00:00:00.000Z');
+    expect(bsonToScalar(new Date('2024-01-01T00:00:00Z'))).toBe('2024-01-01T00:00:00.000Z');
+    expect(bsonToScalar({ $numberDecimal: '12345678901234567890.12' })).toBe('12345678901234567890.12');
+    expect(bsonToScalar(decimal('0.10'))).toBe('0.10');
+    expect(bsonToScalar({ $numberLong: '42' })).toBe(42);
+    expect(bsonToScalar(long('9223372036854775807'))).toBe('9223372036854775807');
+    expect(bsonToScalar({ $binary: { base64: 'AQI=', subType: '00' } })).toBe('AQI=');
+    expect(bsonToScalar(Buffer.from([1, 2]))).toBe('AQI=');
+    expect(bsonToScalar({ $timestamp: { t: 1704067200, i: 1 } })).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should not recurse into BSON values when flattening', () => {
+    const id = objectId('507f1f77bcf86cd799439011');
+    const flattened = flattenObject({ _id: id, createdAt: new Date(0), refs: [{ $oid: 'abc' }] });
+    expect(Object.keys(flattened)).toEqual(['_id', 'createdAt', 'refs']);
+    expect(flattened._id).toBe(id);
+  });
+
+  it('should report matching column types', () => {
+    expect(inferColumnType([objectId('aa'), { $oid: 'bb' }])).toBe('objectId');
+    expect(inferColumnType([{ $numberDecimal: '1.5' }, 2])).toBe('decimal');
+    expect(inferColumnType([{ $numberLong: '1' }, 2])).toBe('long');
+    expect(inferColumnType([new Date(), { $date: '2024-01-01' }])).toBe('date');
+  });
+
+  it('should map BSON documents to scalar cells with typed columns', () => {
+    const mapper = createMapper({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } });
+    const result = mapper.map([{
+      _id: objectId('507f1f77bcf86cd799439011'),
+      price: { $numberDecimal: '19.99' },
+      createdAt: { $date: '2024-01-01T00:00:00Z' },
+      tags: [{ $oid: 'abc' }]
+    }]);
+    expect(result.rows[0]).toEqual({
+      _id: '507f1f77bcf86cd799439011',
+      price: '19.99',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      tags: ['abc']
+    });
+    const types = Object.fromEntries(result.columns.map(c => [c.name, c.type]));
+    expect(types).toEqual({ _id: 'objectId', price: 'decimal', createdAt: 'date', tags: 'array' });
+  });
+
+  it('should apply transforms to the scalar form', () => {
+    const mapper = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'id', transform: { type: 'string' } },
+        { databaseField: 'price', documentField: 'price', transform: { type: 'number' } },
+        { databaseField: 'refs', documentField: 'refs' }
+      ]
+    });
+    const result = mapper.map([{ _id: { $oid: 'abc' }, price: { $numberDecimal: '1.25' }, refs: [{ $oid: 'x' }] }]);
+    expect(result.rows[0]).toEqual({ id: 'abc', price: 1.25, refs: '["x"]' });
+  });
+});
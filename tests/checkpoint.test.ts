@@ -0,0 +1,104 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Incremental Export Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createIncrementalExporter, ValidationError } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('Incremental export', () => {
+  const config: MappingConfig = {
+    mongoMappingType: 'flatten',
+    sourceTableName: 'orders',
+    fieldMappings: [
+      { databaseField: '_id', documentField: 'id' },
+      { databaseField: 'updatedAt', documentField: 'updated_at' }
+    ]
+  };
+  const doc = (id: number, day: number): MongoDBDocument => ({ _id: id, updatedAt: { $date: `2024-01-${String(day).padStart(2, '0')}T00:00:00.000Z` } });
+  const firstBatch = [doc(1, 1), doc(2, 2), doc(3, 2), doc(4, 3), doc(5, 4)];
+
+  let dir: string;
+  let options: { watermarkField: string; stateFile: string; output: string; batchSize: number };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongodb-to-table-'));
+    options = { watermarkField: 'updatedAt', stateFile: path.join(dir, 'state.json'), output: path.join(dir, 'orders.csv'), batchSize: 2 };
+  });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const lines = () => fs.readFileSync(options.output, 'utf-8').split('\n');
+
+  it('should only append documents newer than the last run', async () => {
+    const first = await createIncrementalExporter(config, options).run(firstBatch);
+    expect(first).toMatchObject({ documentsProcessed: 5, documentsSkipped: 0, rowsWritten: 5, resumed: false });
+    expect(first.metadata.watermark).toEqual({ field: 'updatedAt', from: undefined, to: '2024-01-04T00:00:00.000Z' });
+
+    const exporter = createIncrementalExporter(config, options);
+    expect(exporter.getResumeFilter()).toEqual({ updatedAt: { $gte: new Date('2024-01-04T00:00:00.000Z') } });
+    const second = await exporter.run([doc(5, 4), doc(6, 4), doc(7, 5)]);
+    expect(second).toMatchObject({ documentsProcessed: 2, documentsSkipped: 1, rowsWritten: 2 });
+    expect(second.metadata.watermark).toEqual({ field: 'updatedAt', from: '2024-01-04T00:00:00.000Z', to: '2024-01-05T00:00:00.000Z' });
+
+    expect(lines()).toEqual([
+      '"id","updated_at"',
+      '"1","2024-01-01T00:00:00.000Z"',
+      '"2","2024-01-02T00:00:00.000Z"',
+      '"3","2024-01-02T00:00:00.000Z"',
+      '"4","2024-01-03T00:00:00.000Z"',
+      '"5","2024-01-04T00:00:00.000Z"',
+      '"6","2024-01-04T00:00:00.000Z"',
+      '"7","2024-01-05T00:00:00.000Z"'
+    ]);
+    expect(JSON.parse(fs.readFileSync(options.stateFile, 'utf-8')).runs).toHaveLength(2);
+  });
+
+  it('should resume a crashed run from its last checkpoint', async () => {
+    async function* crashing() {
+      yield* firstBatch.slice(0, 3);
+      throw new Error('connection lost');
+    }
+    await expect(createIncrementalExporter(config, options).run(crashing())).rejects.toThrow('connection lost');
+    // Output of the unfinished batch is discarded on resume.
+    fs.appendFileSync(options.output, '\n"partial"');
+
+    const resumed = await createIncrementalExporter(config, options).run(firstBatch);
+    expect(resumed).toMatchObject({ resumed: true, documentsSkipped: 2, documentsProcessed: 3 });
+    expect(resumed.metadata.watermark?.from).toBeUndefined();
+    expect(lines()).toHaveLength(6);
+    expect(lines().slice(2, 4)).toEqual(['"2","2024-01-02T00:00:00.000Z"', '"3","2024-01-02T00:00:00.000Z"']);
+  });
+
+  it('should append SQL without recreating the table', async () => {
+    const sqlOptions = { ...options, output: path.join(dir, 'orders.sql'), format: 'sql' as const };
+    await createIncrementalExporter(config, sqlOptions).run(firstBatch.slice(0, 2));
+    await createIncrementalExporter(config, sqlOptions).run(firstBatch.slice(2));
+    const sql = fs.readFileSync(sqlOptions.output, 'utf-8');
+    expect(sql.match(/CREATE TABLE/g)).toHaveLength(1);
+    expect(sql.match(/INSERT INTO "orders"/g)).toHaveLength(3);
+  });
+
+  it('should stop instead of dropping fields that were not in the first batch', async () => {
+    const allFields: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } };
+    const docs = firstBatch.map(d => (Number(d._id) >= 3 ? { ...d, extra: `x${d._id}` } : d));
+    await expect(createIncrementalExporter(allFields, options).run(docs)).rejects.toThrow(/extra is not among the columns/);
+    expect(lines()).toEqual(['"_id","updatedAt"', '"1","2024-01-01T00:00:00.000Z"', '"2","2024-01-02T00:00:00.000Z"']);
+
+    const declared = { ...allFields, schema: { columns: [{ name: '_id' }, { name: 'updatedAt' }, { name: 'extra' }] } };
+    const withSchema = { ...options, stateFile: path.join(dir, 'schema.json'), output: path.join(dir, 'schema.csv') };
+    await createIncrementalExporter(declared, withSchema).run(docs);
+    expect(fs.readFileSync(withSchema.output, 'utf-8').split('\n').slice(0, 4)).toEqual([
+      '"_id","updatedAt","extra"',
+      '"1","2024-01-01T00:00:00.000Z",""',
+      '"2","2024-01-02T00:00:00.000Z",""',
+      '"3","2024-01-02T00:00:00.000Z","x3"'
+    ]);
+  });
+
+  it('should reject unsorted input and unsupported formats', async () => {
+    await expect(createIncrementalExporter(config, options).run([doc(1, 2), doc(2, 1)])).rejects.toThrow(ValidationError);
+    expect(() => createIncrementalExporter(config, { ...options, format: 'json' as any })).toThrow(/can only append csv or sql/);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - CLI Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { runCli, parseCliArgs, parseDocuments, DocumentParser } from '../src/cli';
+
+async function run(argv: string[], stdin = ''): Promise<{ code: number; stdout: string; stderr: string }> {
+  const io = { stdin: new PassThrough(), stdout: new PassThrough(), stderr: new PassThrough() };
+  const collect = (stream: PassThrough) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    return () => Buffer.concat(chunks).toString('utf-8');
+  };
+  const stdout = collect(io.stdout);
+  const stderr = collect(io.stderr);
+  io.stdin.end(stdin);
+  const code = await runCli(argv, io);
+  return { code, stdout: stdout(), stderr: stderr() };
+}
+
+describe('CLI', () => {
+  const ndjson = [
+    '{"_id":{"$oid":"507f1f77bcf86cd799439011"},"name":"Ann","address":{"city":"Paris"},"items":[{"sku":"A","qty":2},{"sku":"B","qty":1}]}',
+    '{"_id":{"$oid":"507f1f77bcf86cd799439012"},"name":"Bob","address":{"city":"Oslo"},"items":[{"sku":"C","qty":5}]}'
+  ].join('\n');
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongodb-to-table-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('should parse flags and inputs', () => {
+    expect(parseCliArgs(['-m', 'array_expand', '--array-field=items', '-x', 'address,tags', '-d', '2', 'a.json', '-'])).toMatchObject({
+      mode: 'array_expand', arrayFields: ['items'], exclude: ['address', 'tags'], maxDepth: 2, inputs: ['a.json', '-']
+    });
+    expect(() => parseCliArgs(['--format', 'xml'])).toThrow(/--format must be one of/);
+    expect(() => parseCliArgs(['--bogus'])).toThrow(/unknown option --bogus/);
+  });
+
+  it('should read NDJSON and JSON arrays', () => {
+    expect(parseDocuments('{"a":1}\n\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parseDocuments(' [{"a":1},{"a":2}]')).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(() => parseDocuments('{"a":1}\n{oops}', undefined, 'dump.json')).toThrow(/cannot parse dump.json line 2/);
+  });
+
+  it('should parse documents split across chunks', () => {
+    const text = '[{"a":"x,]}\\"y"},\n {"b":[1,{"c":2}]} ,{"d":null}]\n';
+    const parser = new DocumentParser();
+    const documents = text.split('').flatMap(char => parser.push(char));
+    expect([...documents, ...parser.end()]).toEqual([{ a: 'x,]}"y' }, { b: [1, { c: 2 }] }, { d: null }]);
+
+    const lines = new DocumentParser(undefined, 'dump.json');
+    expect(lines.push('{"a":1}\r\n{"a"')).toEqual([{ a: 1 }]);
+    expect(lines.push(':2}')).toEqual([]);
+    expect(lines.end()).toEqual([{ a: 2 }]);
+    expect(() => parseDocuments('[{"a":1}', 'json', 'dump.json')).toThrow(/unexpected end of input/);
+  });
+
+  it('should write only the header for empty input', async () => {
+    expect(await run(['-i', '_id:id,name', '-q'], '')).toEqual({ code: 0, stdout: '"id","name"\n', stderr: '' });
+    expect(await run(['-q'], '\n')).toEqual({ code: 0, stdout: '', stderr: '' });
+    expect(JSON.parse((await run(['-f', 'json', '-i', 'name', '-q'], '[]')).stdout)).toMatchObject({ columns: [{ name: 'name' }], data: [] });
+  });
+
+  it('should map stdin to CSV on stdout', async () => {
+    const result = await run(['-i', '_id:id,name,address.city:city', '-q'], ndjson);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toBe('"city","id","name"\n"Paris","507f1f77bcf86cd799439011","Ann"\n"Oslo","507f1f77bcf86cd799439012","Bob"\n');
+    expect(result.stderr).toBe('');
+  });
+
+  it('should expand arrays and write the format implied by --output', async () => {
+    const input = path.join(dir, 'orders.ndjson');
+    const output = path.join(dir, 'orders.json');
+    fs.writeFileSync(input, ndjson);
+
+    const result = await run(['--mode', 'array_expand', '--array-field', 'items', '--exclude', 'address.city', '-o', output, input]);
+    expect(result.code).toBe(0);
+    expect(result.stderr).toBe('Mapped 2 document(s) to 3 row(s)\n');
+    const written = JSON.parse(fs.readFileSync(output, 'utf-8'));
+    expect(written.metadata).toMatchObject({ sourceCollection: 'orders', totalRows: 3 });
+    expect(written.columns.map((col: any) => col.name)).not.toContain('address.city');
+  });
+
+  it('should print the inferred columns on --dry-run', async () => {
+    const result = await run(['--dry-run', '-q'], ndjson);
+    expect(result.stdout).toBe([
+      'column        type      nullability',
+      '_id           objectId  required',
+      'address.city  string    required',
+      'items[0].qty  integer   required',
+      'items[0].sku  string    required',
+      'name          string    required',
+      'items[1].qty  integer   optional',
+      'items[1].sku  string    optional',
+      ''
+    ].join('\n'));
+  });
+
+  it('should use a config file and write rejected rows with --errors', async () => {
+    const config = path.join(dir, 'mapping.yaml');
+    const rejects = path.join(dir, 'rejects.csv');
+    fs.writeFileSync(config, [
+      'mongoMappingType: flatten',
+      'fieldMappings:',
+      '  - databaseField: name',
+      '    documentField: name',
+      'derivedFields:',
+      '  - name: ratio',
+      '    expression: 10 / n'
+    ].join('\n'));
+
+    const result = await run(['-c', config, '--errors', rejects, '-f', 'json'], '[{"_id":1,"name":"a","n":2},{"_id":2,"name":"b","n":0}]');
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout).data).toEqual([{ name: 'a', ratio: 5 }]);
+    expect(result.stderr).toBe('Mapped 2 document(s) to 1 row(s), 1 error(s)\n');
+    expect(fs.readFileSync(rejects, 'utf-8')).toContain('"2","","ratio","TRANSFORMATION_ERROR"');
+  });
+
+  it('should report errors with a non-zero exit code', async () => {
+    expect((await run(['--mode', 'array_expand'], ndjson)).stderr).toMatch(/mongoArrayField or mongoArrayFields is required/);
+    expect((await run(['missing.json'])).code).toBe(1);
+    const unwritable = await run(['-o', path.join(dir, 'missing', 'out.csv')], ndjson);
+    expect(unwritable.code).toBe(1);
+    expect(unwritable.stderr).toMatch(/^mongodb-to-table: Export failed \(csv\): cannot write .*out\.csv: ENOENT/);
+    expect((await run(['--format'])).code).toBe(2);
+    expect((await run(['--help'])).stdout).toContain('Usage: mongodb-to-table');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Config Loader Tests
+ */
+
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadMappingConfig,
+  parseMappingConfig,
+  createMapper,
+  ConfigValidationError,
+  ConfigurationError,
+  mappingConfigSchema,
+  validateAgainstSchema
+} from '../src';
+
+describe('Config loading', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mapping-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a YAML config and resolve named transforms', () => {
+    const file = join(dir, 'users.yaml');
+    writeFileSync(file, [
+      'mongoMappingType: flatten',
+      'fieldMappings:',
+      '  - databaseField: name',
+      '    documentField: user_name',
+      '    transform: { type: custom, name: upper }',
+      '  - databaseField: age',
+      '    documentField: age',
+      '    transform: { type: number }',
+      'options:',
+      '  maxDepth: 5'
+    ].join('\n'));
+
+    const config = loadMappingConfig(file, { transforms: { upper: (v: any) => String(v).toUpperCase() } });
+    const result = createMapper(config).map([{ _id: 1, name: 'ada', age: '36' }]);
+    expect(result.rows[0]).toEqual({ user_name: 'ADA', age: 36 });
+  });
+
+  it('should load a JSON config and ignore the $schema key', () => {
+    const file = join(dir, 'users.json');
+    writeFileSync(file, JSON.stringify({
+      $schema: mappingConfigSchema.$id,
+      mongoMappingType: 'array_expand',
+      mongoArrayField: 'items',
+      fieldMappings: [{ databaseField: 'items[].sku', documentField: 'sku' }]
+    }));
+
+    const config = loadMappingConfig(file);
+    expect(config).not.toHaveProperty('$schema');
+    expect(createMapper(config).map([{ _id: 1, items: [{ sku: 'A' }, { sku: 'B' }] }]).rows).toHaveLength(2);
+  });
+
+  it('should report every issue with its path', () => {
+    const text = JSON.stringify({
+      mongoMappingType: 'array_expand',
+      fieldMappings: [
+        { databaseField: 'a', documentField: 'a' },
+        { databaseField: 'b', documentField: 'b', transform: { type: 'shout' } },
+        { databaseField: 'c', documentField: '' }
+      ],
+      options: { maxDepth: 0, skipInvalid: true }
+    });
+
+    try {
+      parseMappingConfig(text);
+      fail('expected ConfigValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      const issues = (error as ConfigValidationError).issues;
+      expect(issues.map(issue => issue.path)).toEqual([
+        'fieldMappings[2].documentField',
+        'options.maxDepth',
+        'options.skipInvalid',
+        '',
+        'fieldMappings[1].transform.type'
+      ]);
+      expect(issues[4].message).toBe('unknown transform "shout"');
+      expect((error as Error).message).toContain('options.maxDepth: must be >= 1 but got 0');
+    }
+  });
+
+  it('should reject unknown named transforms', () => {
+    const text = JSON.stringify({
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: 'a', documentField: 'a', transform: { type: 'custom', name: 'missing' } }]
+    });
+    expect(() => parseMappingConfig(text, { transforms: { upper: String } })).toThrow(/fieldMappings\[0\]\.transform\.name: unknown transform "missing"/);
+  });
+
+  it('should require a name for custom transforms', () => {
+    const issues = validateAgainstSchema({
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: 'a', documentField: 'a', transform: { type: 'custom' } }]
+    }, mappingConfigSchema);
+    expect(issues).toEqual([{ path: 'fieldMappings[0].transform.name', message: 'is required' }]);
+  });
+
+  it('should ship the schema as mapping-config.schema.json', () => {
+    const published = JSON.parse(readFileSync(join(__dirname, '..', 'mapping-config.schema.json'), 'utf-8'));
+    expect(published).toEqual(JSON.parse(JSON.stringify(mappingConfigSchema)));
+  });
+
+  it('should surface parse errors as configuration errors', () => {
+    expect(() => parseMappingConfig('{ "mongoMappingType": ', { source: 'broken.json' })).toThrow(ConfigurationError);
+    expect(() => parseMappingConfig('fieldMappings: [', { format: 'yaml' })).toThrow(/cannot parse YAML config/);
+    expect(() => loadMappingConfig(join(dir, 'missing.json'))).toThrow(/cannot read/);
+  });
+});
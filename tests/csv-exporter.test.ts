@@ -0,0 +1,67 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - CSV Exporter Tests
+ */
+
+import { Writable } from 'stream';
+import { exportToCSV, createStreamExporter, parseCSV } from '../src';
+import { TableData } from '../src/types';
+import { ConfigurationError, ExportError } from '../src/errors';
+
+describe('CSVExporter dialects', () => {
+  const data: TableData = {
+    columns: [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'name', type: 'string', required: false },
+      { name: 'note', type: 'string', required: false }
+    ],
+    rows: [
+      { id: 1, name: 'Ann', note: 'says "hi", twice' },
+      { id: -2, name: null, note: '=HYPERLINK("http://x")' }
+    ],
+    metadata: { totalRows: 2, totalColumns: 3, mappingType: 'flatten', sourceCollection: 'users', generatedAt: '2024-01-01T00:00:00.000Z' }
+  };
+
+  it('should quote every field by default', () => {
+    expect(exportToCSV(data)).toBe([
+      '"id","name","note"',
+      '"1","Ann","says ""hi"", twice"',
+      '"-2","","=HYPERLINK(""http://x"")"'
+    ].join('\n'));
+  });
+
+  it('should write minimal quoting, tabs and CRLF', () => {
+    expect(exportToCSV(data, { csv: { delimiter: '\t', quoting: 'minimal', lineEnding: '\r\n' } })).toBe(
+      'id\tname\tnote\r\n1\tAnn\t"says ""hi"", twice"\r\n-2\t\t"=HYPERLINK(""http://x"")"'
+    );
+    expect(exportToCSV(data, { csv: { quoting: 'minimal', quote: "'" } }).split('\n')[1]).toBe("1,Ann,'says \"hi\", twice'");
+  });
+
+  it('should use an escape character instead of doubling quotes', () => {
+    expect(exportToCSV(data, { csv: { escape: '\\' } }).split('\n')[1]).toBe('"1","Ann","says \\"hi\\", twice"');
+    expect(exportToCSV(data, { csv: { quoting: 'none', escape: '\\' } }).split('\n')[1]).toBe('1,Ann,says \\"hi\\"\\, twice');
+    expect(() => exportToCSV(data, { csv: { quoting: 'none' } })).toThrow(ExportError);
+  });
+
+  it('should neutralize formulas in text cells only', () => {
+    const csv = exportToCSV(data, { csv: { quoting: 'minimal', escapeFormulas: true } }).split('\n');
+    expect(csv[2]).toBe('-2,,"\'=HYPERLINK(""http://x"")"');
+  });
+
+  it('should add a byte order mark and round-trip through parseCSV', () => {
+    const csv = exportToCSV(data, { csv: { bom: true, lineEnding: '\r\n' } });
+    expect(csv.startsWith('\uFEFF"id"')).toBe(true);
+    expect(parseCSV(csv).rows[0]).toEqual({ id: '1', name: 'Ann', note: 'says "hi", twice' });
+    expect(() => exportToCSV(data, { encoding: 'latin1', csv: { bom: true } })).toThrow(ConfigurationError);
+    expect(() => exportToCSV(data, { csv: { delimiter: '"' } })).toThrow(ConfigurationError);
+  });
+
+  it('should apply the dialect when streaming', async () => {
+    let output = '';
+    const stream = new Writable({ write(chunk, _encoding, callback) { output += chunk; callback(); } });
+    const exporter = createStreamExporter(stream, { format: 'csv', csv: { delimiter: ';', quoting: 'minimal', lineEnding: '\r\n', bom: true } });
+    await exporter.writeHeader(data.columns);
+    await exporter.writeRows(data.rows);
+    await exporter.end();
+    expect(output).toBe('\uFEFFid;name;note\r\n1;Ann;"says ""hi"", twice"\r\n-2;;"=HYPERLINK(""http://x"")"');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Schema Discovery Tests
+ */
+
+import { discoverSchema, reportToMappingConfig, createMapper } from '../src';
+import { MongoDBDocument } from '../src/types';
+
+describe('Schema discovery', () => {
+  const documents: MongoDBDocument[] = [
+    { _id: { $oid: '507f1f77bcf86cd799439011' }, name: 'Alice', age: 30, tags: ['a'], orders: [{ sku: 'A', qty: 1 }] },
+    { _id: { $oid: '507f1f77bcf86cd799439012' }, name: 'Bob', age: null, orders: [{ sku: 'B', qty: 2.5 }, { sku: 'C', qty: 1 }] },
+    { _id: { $oid: '507f1f77bcf86cd799439013' }, name: 'Carol', age: '41', createdAt: new Date('2024-01-01') }
+  ];
+
+  it('should report every flattened path with types and rates', () => {
+    const report = discoverSchema(documents);
+    expect(report.sampledDocuments).toBe(3);
+    expect(report.fields.map(f => f.path)).toEqual(['_id', 'age', 'createdAt', 'name', 'orders[].qty', 'orders[].sku', 'tags']);
+
+    const age = report.fields.find(f => f.path === 'age')!;
+    expect(age.types).toEqual({ integer: 1, string: 1 });
+    expect(age.inferredType).toBe('string');
+    expect(age.nullRate).toBeCloseTo(1 / 3);
+    expect(age.missingRate).toBe(0);
+
+    const createdAt = report.fields.find(f => f.path === 'createdAt')!;
+    expect(createdAt.missingCount).toBe(2);
+    expect(createdAt.examples).toEqual(['2024-01-01T00:00:00.000Z']);
+
+    const qty = report.fields.find(f => f.path === 'orders[].qty')!;
+    expect(qty).toMatchObject({ inferredType: 'float', isArray: true, presentCount: 2, types: { integer: 2, float: 1 } });
+    expect(report.fields.find(f => f.path === '_id')!.inferredType).toBe('objectId');
+  });
+
+  it('should describe array fields', () => {
+    const report = discoverSchema(documents);
+    expect(report.arrays).toEqual([
+      { fieldName: 'orders', elementType: 'object', nestedFields: ['qty', 'sku'] },
+      { fieldName: 'tags', elementType: 'primitive' }
+    ]);
+  });
+
+  it('should respect the sample size', () => {
+    expect(discoverSchema(documents, { sampleSize: 1 }).sampledDocuments).toBe(1);
+  });
+
+  it('should build a working starter config', () => {
+    const report = discoverSchema(documents);
+    const flattenConfig = reportToMappingConfig(report, { sourceTableName: 'users' });
+    expect(flattenConfig.fieldMappings.map(m => m.databaseField)).toEqual(['_id', 'age', 'createdAt', 'name', 'tags']);
+    expect(flattenConfig.fieldMappings.find(m => m.databaseField === 'createdAt')!.transform).toEqual({ type: 'date' });
+
+    const expandConfig = reportToMappingConfig(report, { mongoMappingType: 'array_expand', mongoArrayField: 'orders' });
+    const result = createMapper({ ...expandConfig, options: { skipInvalidRows: true } }).map(documents);
+    expect(result.rows).toHaveLength(3);
+    expect(result.rows[1]).toMatchObject({ name: 'Bob', orders_sku: 'B', orders_qty: 2.5 });
+  });
+
+  it('should expand primitive arrays into their elements', () => {
+    const report = discoverSchema(documents);
+    const config = reportToMappingConfig(report, { mongoMappingType: 'array_expand', mongoArrayField: 'tags' });
+    expect(config.fieldMappings.find(m => m.documentField === 'tags')).toEqual({ databaseField: 'tags[]', documentField: 'tags' });
+    expect(createMapper({ ...config, options: { skipInvalidRows: true } }).map(documents).rows).toEqual([expect.objectContaining({ name: 'Alice', tags: 'a' })]);
+  });
+
+  it('should give paths that share a column name distinct columns', () => {
+    const config = reportToMappingConfig(discoverSchema([{ _id: 1, a: { b: 1 }, a_b: 2 }]));
+    const names = config.fieldMappings.map(m => m.documentField);
+    expect(names).toEqual(['_id', 'a_b', expect.stringMatching(/^a_b_[0-9a-f]{8}$/)]);
+    expect(createMapper(config).map([{ _id: 1, a: { b: 1 }, a_b: 2 }]).columns).toHaveLength(3);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Derived Field Expression Tests
+ */
+
+import { compileExpression, createMapper, parseMappingConfig, TransformationError, ConfigurationError } from '../src';
+import { MongoDBDocument } from '../src/types';
+
+describe('Derived field expressions', () => {
+  const evaluate = (source: string, scope: Record<string, any> = {}) => compileExpression(source).evaluate(path => scope[path]);
+
+  it('should evaluate arithmetic, comparisons and conditionals with precedence', () => {
+    expect(evaluate('price * qty + 1', { price: 2.5, qty: 4 })).toBe(11);
+    expect(evaluate('-(a - b) % 4', { a: 1, b: 10 })).toBe(1);
+    expect(evaluate("qty > 0 && !cancelled ? 'open' : 'closed'", { qty: 3, cancelled: false })).toBe('open');
+    expect(evaluate("status == 'A' ? 1 : status == 'B' ? 2 : 3", { status: 'B' })).toBe(2);
+    expect(evaluate("'#' + id", { id: 7 })).toBe('#7');
+  });
+
+  it('should propagate nulls and provide helper functions', () => {
+    expect(evaluate('price * qty', { price: 2 })).toBeNull();
+    expect(evaluate("concat(first, ' ', last)", { first: 'Ada' })).toBe('Ada ');
+    expect(evaluate('coalesce(nick, upper(name))', { name: 'ada' })).toBe('ADA');
+    expect(evaluate('round(total / 3, 2)', { total: 10 })).toBe(3.33);
+    expect(evaluate('max(a, b, 2)', { a: 1 })).toBe(2);
+    expect(evaluate('`odd-name` + `items[].qty`', { 'odd-name': 1, 'items[].qty': 2 })).toBe(3);
+  });
+
+  it('should list referenced fields', () => {
+    expect(compileExpression('user.first + items[0].qty * user.first').fields).toEqual(['user.first', 'items[0].qty']);
+  });
+
+  it('should reject invalid syntax and unknown functions at compile time', () => {
+    expect(() => compileExpression('price *')).toThrow(/unexpected end of expression at position 7/);
+    expect(() => compileExpression('eval(x)')).toThrow(/unknown function "eval"/);
+    expect(() => compileExpression('round()')).toThrow(/round\(\) takes 1-2 argument/);
+    expect(() => compileExpression('a ; b')).toThrow(ConfigurationError);
+  });
+
+  describe('in mapping configs', () => {
+    const documents: MongoDBDocument[] = [
+      { _id: 'o1', customer: { first: 'Ada', last: 'Lovelace' }, items: [{ price: 2, qty: 3 }, { price: 5, qty: 1 }] },
+      { _id: 'o2', customer: { first: 'Alan' }, items: [{ price: 4, qty: 'x' }] }
+    ];
+
+    it('should append derived columns after field mappings, per expanded row', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayField: 'items',
+        fieldMappings: [{ databaseField: '_id', documentField: 'order' }],
+        derivedFields: [
+          { name: 'customer', expression: "trim(concat(customer.first, ' ', customer.last))" },
+          { name: 'total', expression: 'items[].price * items[].qty' },
+          { name: 'size', expression: "total >= 5 ? 'large' : 'small'", transform: { type: 'uppercase' } }
+        ],
+        options: { skipInvalidRows: true }
+      });
+
+      const result = mapper.map(documents);
+      expect(result.rows).toEqual([
+        { order: 'o1', customer: 'Ada Lovelace', total: 6, size: 'LARGE' },
+        { order: 'o1', customer: 'Ada Lovelace', total: 5, size: 'LARGE' }
+      ]);
+
+      const [error] = mapper.getErrors();
+      expect(error).toBeInstanceOf(TransformationError);
+      expect(error.documentId).toBe('o2');
+      expect(error.field).toBe('total');
+      expect(error.message).toContain('cannot apply * to "x" in "items[].price * items[].qty"');
+    });
+
+    it('should treat fields named like Object members as missing', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [],
+        derivedFields: [
+          { name: 'ctor', expression: "coalesce(constructor, 'none')" },
+          { name: 'text', expression: "coalesce(toString, hasOwnProperty, 'none')" }
+        ]
+      });
+      expect(mapper.map([{ _id: 1 }]).rows).toEqual([{ ctor: 'none', text: 'none' }]);
+    });
+
+    it('should report expression errors with their config path', () => {
+      const text = JSON.stringify({
+        mongoMappingType: 'flatten',
+        fieldMappings: [],
+        derivedFields: [{ name: 'ok', expression: 'a + b' }, { name: 'bad', expression: 'a +* b' }]
+      });
+      expect(() => parseMappingConfig(text)).toThrow(/derivedFields\[1\]\.expression: invalid expression "a \+\* b": unexpected "\*"/);
+    });
+  });
+});
@@ -4,7 +4,7 @@
 
 import {
   MongoDBToTableMapper, createMapper, quickMap, quickExport,
-  exportToCSV, exportToJSON, exportToArray
+  exportToCSV, exportToJSON, exportToArray, exportTables
 } from '../src';
 import { MappingConfig, MongoDBDocument, TableData } from '../src/types';
 import { ValidationError, ConfigurationError } from '../src/errors';
@@ -115,6 +115,392 @@ describe('MongoDBToTableMapper', () => {
       expect(result.rows).toHaveLength(3);
       expect(result.rows.map(r => r.tag_value)).toEqual(['react', 'vue', 'angular']);
     });
+
+    it('should expand nested array paths recursively', () => {
+      const documents: MongoDBDocument[] = [{
+        _id: 'c1',
+        orders: [
+          { orderId: 'o1', items: [{ sku: 'A' }, { sku: 'B' }] },
+          { orderId: 'o2', items: [{ sku: 'C' }] }
+        ]
+      }];
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayFields: ['orders[].items[]'],
+        fieldMappings: [
+          { databaseField: '_id', documentField: 'customer' },
+          { databaseField: 'orders[].orderId', documentField: 'order' },
+          { databaseField: 'orders[].items[].sku', documentField: 'sku' }
+        ]
+      });
+      const result = mapper.map(documents);
+      expect(result.rows).toEqual([
+        { customer: 'c1', order: 'o1', sku: 'A' },
+        { customer: 'c1', order: 'o1', sku: 'B' },
+        { customer: 'c1', order: 'o2', sku: 'C' }
+      ]);
+    });
+
+    const siblingDocs: MongoDBDocument[] = [{ _id: 1, sizes: ['S', 'M'], colors: ['red', 'blue', 'green'] }];
+    const siblingMappings = [
+      { databaseField: 'sizes[]', documentField: 'size' },
+      { databaseField: 'colors[]', documentField: 'color' }
+    ];
+
+    it('should expand sibling arrays as a cartesian product', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayFields: ['sizes', 'colors'],
+        fieldMappings: siblingMappings
+      });
+      const result = mapper.map(siblingDocs);
+      expect(result.rows).toHaveLength(6);
+      expect(result.rows[1]).toEqual({ size: 'S', color: 'blue' });
+    });
+
+    it('should zip sibling arrays by index', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayFields: ['sizes', 'colors'],
+        arrayExpandStrategy: 'zip',
+        fieldMappings: siblingMappings
+      });
+      const result = mapper.map(siblingDocs);
+      expect(result.rows).toEqual([
+        { size: 'S', color: 'red' },
+        { size: 'M', color: 'blue' },
+        { size: null, color: 'green' }
+      ]);
+    });
+
+    it('should include element indexes when requested', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayField: 'tags',
+        fieldMappings: [
+          { databaseField: 'tags[]', documentField: 'tag' },
+          { databaseField: 'tags[].$index', documentField: 'position' }
+        ],
+        options: { includeArrayIndex: true }
+      });
+      const result = mapper.map([{ _id: 1, tags: ['a', 'b'] }]);
+      expect(result.rows).toEqual([{ tag: 'a', position: 0 }, { tag: 'b', position: 1 }]);
+    });
+
+    it('should reject nested paths whose elements are not objects', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayFields: ['orders[].items[]'],
+        fieldMappings: [{ databaseField: 'orders[].items[].sku', documentField: 'sku' }]
+      });
+      expect(() => mapper.map([{ _id: 1, orders: [1, 2] }])).toThrow(ValidationError);
+    });
+  });
+
+  describe('Normalize Mode Mapping', () => {
+    const documents: MongoDBDocument[] = [{
+      _id: 'c1',
+      name: 'Alice',
+      orders: [
+        { orderId: 'o1', items: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 2 }] },
+        { orderId: 'o2', items: [] }
+      ]
+    }, { _id: 'c2', name: 'Bob' }];
+
+    const config: MappingConfig = {
+      mongoMappingType: 'normalize',
+      sourceTableName: 'customers',
+      mongoArrayFields: ['orders[].items'],
+      fieldMappings: [
+        { databaseField: 'name', documentField: 'customer_name' },
+        { databaseField: 'orders[].orderId', documentField: 'order_id' }
+      ]
+    };
+
+    it('should split documents into parent and child tables', () => {
+      const tables = createMapper(config).mapNormalized(documents);
+      expect(Object.keys(tables)).toEqual(['customers', 'customers_orders', 'customers_orders_items']);
+      expect(tables.customers.rows).toEqual([{ _id: 'c1', customer_name: 'Alice' }, { _id: 'c2', customer_name: 'Bob' }]);
+      expect(tables.customers_orders.rows).toEqual([
+        { _root_id: 'c1', _orders_index: 0, order_id: 'o1' },
+        { _root_id: 'c1', _orders_index: 1, order_id: 'o2' }
+      ]);
+      expect(tables.customers_orders_items.rows).toEqual([
+        { _root_id: 'c1', _orders_index: 0, _items_index: 0, sku: 'A', qty: 1 },
+        { _root_id: 'c1', _orders_index: 0, _items_index: 1, sku: 'B', qty: 2 }
+      ]);
+    });
+
+    it('should record table relationships in metadata', () => {
+      const tables = createMapper(config).mapNormalized(documents);
+      expect(tables.customers_orders_items.metadata).toMatchObject({
+        mappingType: 'normalize',
+        tableName: 'customers_orders_items',
+        parentTable: 'customers_orders',
+        foreignKeys: ['_root_id', '_orders_index', '_items_index']
+      });
+    });
+
+    it('should store primitive array elements in a value column', () => {
+      const tables = createMapper({
+        mongoMappingType: 'normalize',
+        mongoArrayField: 'tags',
+        fieldMappings: [{ databaseField: 'tags[]', documentField: 'tag' }]
+      }).mapNormalized([{ _id: 1, tags: ['x', 'y'] }]);
+      expect(tables.root_tags.rows).toEqual([{ _root_id: 1, _tags_index: 0, tag: 'x' }, { _root_id: 1, _tags_index: 1, tag: 'y' }]);
+    });
+
+    it('should require mapNormalized() for normalize mode', () => {
+      expect(() => createMapper(config).map(documents)).toThrow(ConfigurationError);
+    });
+
+    it('should reject array paths that would share a table', () => {
+      expect(() => createMapper({ mongoMappingType: 'normalize', mongoArrayFields: ['a.b', 'a_b'], fieldMappings: [], options: { includeAllFields: true } }))
+        .toThrow(/"a.b" and "a_b" would both be stored in table "root_a_b"/);
+    });
+
+    it('should reject options that only describe a single table', () => {
+      expect(() => createMapper({ ...config, schema: { columns: [{ name: 'customer_name', nullable: false }] } })).toThrow(/schema/);
+      expect(() => createMapper({ ...config, derivedFields: [{ name: 'n', expression: 'name' }] })).toThrow(/derivedFields/);
+    });
+
+    it('should export every table', () => {
+      const exported = exportTables(createMapper(config).mapNormalized(documents), { format: 'csv' });
+      expect(Object.keys(exported)).toHaveLength(3);
+      expect(exported.customers_orders.split('\n')[0]).toBe('"_orders_index","_root_id","order_id"');
+    });
+  });
+
+  describe('Streaming Mapping', () => {
+    async function* generateDocuments(count: number): AsyncGenerator<MongoDBDocument> {
+      for (let i = 1; i <= count; i++) yield { _id: i, name: `User ${i}`, score: i % 2 === 0 ? i : null };
+    }
+
+    const config: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'id' },
+        { databaseField: 'name', documentField: 'name' },
+        { databaseField: 'score', documentField: 'score' }
+      ]
+    };
+
+    it('should yield rows in batches of the requested size', async () => {
+      const mapper = createMapper(config);
+      const batchSizes: number[] = [];
+      for await (const batch of mapper.mapStream(generateDocuments(5), { batchSize: 2 })) {
+        batchSizes.push(batch.rows.length);
+      }
+      expect(batchSizes).toEqual([2, 2, 1]);
+    });
+
+    it('should infer columns incrementally', async () => {
+      const mapper = createMapper(config);
+      const batches = [];
+      for await (const batch of mapper.mapStream(generateDocuments(3), { batchSize: 1 })) batches.push(batch);
+      expect(batches[0].columns.find(c => c.name === 'score')!.type).toBe('unknown');
+      expect(batches[2].columns.find(c => c.name === 'score')).toEqual({ name: 'score', type: 'integer', required: false });
+      expect(batches[2].documentsProcessed).toBe(3);
+    });
+
+    it('should use pre-declared columns when provided', async () => {
+      const mapper = createMapper(config);
+      const columns = [{ name: 'id', type: 'integer', required: true }];
+      for await (const batch of mapper.mapStream(generateDocuments(2), { columns })) {
+        expect(batch.columns).toBe(columns);
+      }
+    });
+
+    it('should collect an async iterable into table data', async () => {
+      const result = await createMapper(config).mapAsyncIterable(generateDocuments(4));
+      expect(result.rows).toHaveLength(4);
+      expect(result.metadata.totalRows).toBe(4);
+      expect(result.rows[1]).toEqual({ id: 2, name: 'User 2', score: 2 });
+    });
+
+    it('should skip and collect invalid documents when skipInvalidRows is enabled', async () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayField: 'tags',
+        fieldMappings: [{ databaseField: 'tags[]', documentField: 'tag' }],
+        options: { skipInvalidRows: true }
+      });
+      const result = await mapper.mapAsyncIterable([{ _id: 1, tags: ['a', 'b'] }, { _id: 2 }]);
+      expect(result.rows.map(r => r.tag)).toEqual(['a', 'b']);
+    });
+
+    it('should propagate errors when skipInvalidRows is disabled', async () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayField: 'tags',
+        fieldMappings: [{ databaseField: 'tags[]', documentField: 'tag' }]
+      });
+      await expect(mapper.mapAsyncIterable([{ _id: 1 }])).rejects.toThrow(ValidationError);
+      expect(mapper.hasErrors()).toBe(true);
+    });
+  });
+
+  describe('Table Schema', () => {
+    const baseConfig: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'id' },
+        { databaseField: 'status', documentField: 'status' },
+        { databaseField: 'age', documentField: 'age' },
+        { databaseField: 'email', documentField: 'email' }
+      ],
+      schema: {
+        columns: [
+          { name: 'email', type: 'string', pattern: '^[^@]+@[^@]+$' },
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'status', enum: ['active', 'inactive'] },
+          { name: 'age', type: 'integer', min: 0, max: 150 }
+        ]
+      }
+    };
+
+    it('should order columns and use declared types', () => {
+      const result = createMapper(baseConfig).map([{ _id: 1, status: 'active', age: 30, email: 'a@b.c' }]);
+      expect(result.columns).toEqual([
+        { name: 'email', type: 'string', required: false },
+        { name: 'id', type: 'integer', required: true },
+        { name: 'status', type: 'string', required: false },
+        { name: 'age', type: 'integer', required: false }
+      ]);
+      expect(Object.keys(result.rows[0])).toEqual(['email', 'id', 'status', 'age']);
+    });
+
+    it('should report violations with row index and field', () => {
+      const mapper = createMapper({ ...baseConfig, options: { skipInvalidRows: true } });
+      const result = mapper.map([
+        { _id: 1, status: 'active', age: 30, email: 'a@b.c' },
+        { _id: 2, status: 'deleted', age: -1, email: 'nope' },
+        { _id: 3, status: 'inactive', age: 40, email: null }
+      ]);
+      expect(result.rows.map(r => r.id)).toEqual([1, 3]);
+      const errors = mapper.getErrors();
+      expect(errors.map(e => e.field)).toEqual(['email', 'status', 'age']);
+      expect(errors.every(e => e.rowIndex === 1 && e.documentId === '2')).toBe(true);
+      expect(errors[0]).toBeInstanceOf(ValidationError);
+    });
+
+    it('should throw on the first violation when skipInvalidRows is disabled', () => {
+      expect(() => createMapper(baseConfig).map([{ _id: 'x' }])).toThrow(/column "id" expected integer but got string/);
+    });
+
+    it('should treat nullValue cells as missing', () => {
+      const config: MappingConfig = {
+        mongoMappingType: 'flatten',
+        fieldMappings: [
+          { databaseField: '_id', documentField: 'id' },
+          { databaseField: 'age', documentField: 'age' }
+        ],
+        options: { nullValue: '' },
+        schema: { columns: [{ name: 'id', type: 'integer', nullable: false }, { name: 'age', type: 'integer' }, { name: 'city' }] }
+      };
+      expect(createMapper(config).map([{ _id: 1 }]).rows).toEqual([{ id: 1, age: '', city: '' }]);
+      expect(() => createMapper(config).map([{ _id: null, age: 3 }])).toThrow(/column "id" is required/);
+    });
+
+    it('should keep undeclared columns when additionalColumns is enabled', () => {
+      const result = createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [],
+        options: { includeAllFields: true },
+        schema: { columns: [{ name: 'name', type: 'string' }], additionalColumns: true }
+      }).map([{ _id: 1, name: 'A' }]);
+      expect(result.columns.map(c => c.name)).toEqual(['name', '_id']);
+    });
+
+    it('should reject invalid schema definitions', () => {
+      expect(() => createMapper({ ...baseConfig, schema: { columns: [{ name: 'a', pattern: '(' }] } })).toThrow(ConfigurationError);
+      expect(() => createMapper({ ...baseConfig, schema: { columns: [{ name: 'age', type: 'integr' }] } })).toThrow(/unknown type "integr" for schema column age/);
+      expect(() => createMapper({ ...baseConfig, schema: { columns: [{ name: 'id', type: 'objectId' }, { name: 'seen', type: 'timestamp' }] } })).not.toThrow();
+    });
+
+    it('should apply defaultValue and enforce required field mappings', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [
+          { databaseField: '_id', documentField: 'id' },
+          { databaseField: 'country', documentField: 'country', defaultValue: 'US' },
+          { databaseField: 'email', documentField: 'email', required: true }
+        ],
+        options: { skipInvalidRows: true }
+      });
+      const result = mapper.map([{ _id: 1, email: 'a@b.c' }, { _id: 2 }]);
+      expect(result.rows).toEqual([{ id: 1, country: 'US', email: 'a@b.c' }]);
+      expect(mapper.getErrors()[0]).toMatchObject({ field: 'email', documentId: '2' });
+    });
+  });
+
+  describe('Processing Statistics', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'array_expand',
+      mongoArrayField: 'items',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'id' },
+        { databaseField: 'items[].price', documentField: 'price', transform: { type: 'custom', customTransform: (v: any) => {
+          if (v < 0) throw new Error('negative price');
+          return v;
+        } } }
+      ],
+      options: { skipInvalidRows: true }
+    };
+    const documents: MongoDBDocument[] = [
+      { _id: 'a', items: [{ price: 1 }, { price: 2 }] },
+      { _id: 'b' },
+      { _id: 'c', items: [{ price: -5 }] }
+    ];
+
+    it('should report counts, error breakdowns and timings', () => {
+      const mapper = createMapper(config);
+      mapper.map(documents);
+      const stats = mapper.getStats();
+      expect(stats).toMatchObject({
+        totalDocuments: 3,
+        processedRows: 2,
+        skippedDocuments: 2,
+        errorCount: 2,
+        errorsByCode: { VALIDATION_ERROR: 1, TRANSFORMATION_ERROR: 1 },
+        errorsByField: { items: 1, 'items[].price': 1 }
+      });
+      expect(stats.finishedAt).toBeDefined();
+      expect(stats.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should record document id, field and offending value per error', () => {
+      const mapper = createMapper(config);
+      mapper.map(documents);
+      expect(mapper.getProcessingErrors()[1]).toMatchObject({
+        documentId: 'c',
+        code: 'TRANSFORMATION_ERROR',
+        field: 'items[].price',
+        value: -5
+      });
+    });
+
+    it('should export rejects as CSV and JSON', () => {
+      const mapper = createMapper(config);
+      mapper.map(documents);
+      const csv = mapper.exportErrors('csv').split('\n');
+      expect(csv[0]).toBe('"documentId","rowIndex","field","code","message","value","timestamp"');
+      expect(csv[2]).toContain('"c","","items[].price","TRANSFORMATION_ERROR"');
+      const json = JSON.parse(mapper.exportErrors('json'));
+      expect(json[0]).toMatchObject({ documentId: 'b', field: 'items', code: 'VALIDATION_ERROR' });
+    });
+
+    it('should count rows skipped by schema validation', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [{ databaseField: 'age', documentField: 'age' }],
+        schema: { columns: [{ name: 'age', type: 'integer' }] },
+        options: { skipInvalidRows: true }
+      });
+      mapper.map([{ _id: 1, age: 3 }, { _id: 2, age: 'x' }]);
+      expect(mapper.getStats()).toMatchObject({ processedRows: 1, skippedRows: 1, errorCount: 1 });
+      expect(mapper.getProcessingErrors()[0]).toMatchObject({ documentId: '2', rowIndex: 1, field: 'age', value: 'x' });
+    });
   });
 
   describe('Data Type Transformations', () => {
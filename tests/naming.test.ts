@@ -0,0 +1,131 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Column Naming Tests
+ */
+
+import { createMapper, formatColumnName, ColumnNamer, ConfigurationError } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('Column naming', () => {
+  it('should replace separators and apply case', () => {
+    expect(formatColumnName('items[0].sku')).toBe('items_0_sku');
+    expect(formatColumnName('user.profile.name', { separator: '__' })).toBe('user__profile__name');
+    expect(formatColumnName('items[].unitPrice', { case: 'snake' })).toBe('items_unit_price');
+    expect(formatColumnName('user.profile.firstName', { case: 'camel' })).toBe('userProfileFirstName');
+    expect(formatColumnName('billing-address.zip code')).toBe('billing_address_zip_code');
+    expect(formatColumnName('2fa.enabled')).toBe('_2fa_enabled');
+    expect(formatColumnName('_id', { case: 'snake' })).toBe('_id');
+  });
+
+  it('should suffix reserved words', () => {
+    expect(formatColumnName('order')).toBe('order_');
+    expect(formatColumnName('User')).toBe('User_');
+    expect(formatColumnName('order', { reservedWords: [] })).toBe('order');
+  });
+
+  it('should truncate long names deterministically with a hash of the path', () => {
+    const path = 'shipment.destination.address.line_one_of_the_street';
+    const name = formatColumnName(path, { maxLength: 30 });
+    expect(name).toMatch(/^shipment_destination_[0-9a-f]{8}$/);
+    expect(formatColumnName(path, { maxLength: 30 })).toBe(name);
+    expect(formatColumnName(`${path}2`, { maxLength: 30 })).not.toBe(name);
+  });
+
+  it('should give colliding paths distinct names', () => {
+    const namer = new ColumnNamer({ case: 'snake' });
+    expect(namer.name('user.name')).toBe('user_name');
+    expect(namer.name('userName')).toMatch(/^user_name_[0-9a-f]{8}$/);
+    expect(namer.name('user_name')).toMatch(/^user_name_[0-9a-f]{8}$/);
+    expect(new Set([namer.name('user.name'), namer.name('userName'), namer.name('user_name')]).size).toBe(3);
+  });
+
+  it('should rename mapped columns and record their source paths', () => {
+    const docs: MongoDBDocument[] = [
+      { _id: 1, user: { firstName: 'Ada' }, items: [{ sku: 'A' }], order: 7, user_firstName: 'dup' },
+      { _id: 2, user: { firstName: 'Bob' }, items: [{ sku: 'B' }, { sku: 'C' }], order: 8 }
+    ];
+    const config: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [],
+      options: { includeAllFields: true, columnNaming: { case: 'snake' } }
+    };
+    const table = createMapper(config).map(docs);
+
+    expect(table.columns.map(column => [column.sourceFields![0], column.name])).toEqual([
+      ['_id', '_id'],
+      ['items[0].sku', 'items_0_sku'],
+      ['order', 'order_'],
+      ['user.firstName', 'user_first_name'],
+      ['items[1].sku', 'items_1_sku'],
+      ['user_firstName', expect.stringMatching(/^user_first_name_[0-9a-f]{8}$/)]
+    ]);
+    expect(table.rows[1]).toEqual({ _id: 2, items_0_sku: 'B', items_1_sku: 'C', order_: 8, user_first_name: 'Bob' });
+
+    const reversed = createMapper(config).map([...docs].reverse());
+    expect(reversed.columns.map(column => column.name)).toEqual(table.columns.map(column => column.name));
+  });
+
+  it('should record the mapped path of explicit field mappings', () => {
+    const table = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: 'user.firstName', documentField: 'firstName' }],
+      options: { columnNaming: { case: 'snake' } }
+    }).map([{ _id: 1, user: { firstName: 'Ada' } }]);
+    expect(table.columns).toEqual([{ name: 'first_name', type: 'string', required: true, sourceFields: ['user.firstName'] }]);
+  });
+
+  it('should keep the names of columns passed to mapStream', async () => {
+    const mapper = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [],
+      options: { includeAllFields: true, columnNaming: { case: 'snake' } }
+    });
+    const columns = [
+      { name: 'id_', type: 'integer', required: true, sourceFields: ['_id'] },
+      { name: 'user_name', type: 'string', required: false, sourceFields: ['userName'] }
+    ];
+    const batches = [];
+    for await (const batch of mapper.mapStream([{ _id: 1, userName: 'a', user: { name: 'b' } }], { columns })) batches.push(batch);
+    const [row] = batches[0].rows;
+    expect(row).toMatchObject({ id_: 1, user_name: 'a' });
+    expect(Object.keys(row)[2]).toMatch(/^user_name_[0-9a-f]{8}$/);
+  });
+
+  it('should rename aggregate and normalized output', async () => {
+    const docs: MongoDBDocument[] = [
+      { _id: 1, customer: { firstName: 'Ada' }, items: [{ unitPrice: 2 }, { unitPrice: 3 }] },
+      { _id: 2, customer: { firstName: 'Ada' }, items: [] }
+    ];
+    const aggregate: MappingConfig = {
+      mongoMappingType: 'aggregate',
+      fieldMappings: [],
+      aggregation: { groupBy: ['customer.firstName'], aggregates: [{ name: 'orderCount', op: 'count' }] },
+      options: { includeAllFields: true, columnNaming: { case: 'snake' } }
+    };
+    const table = createMapper(aggregate).map(docs);
+    expect(table.columns.map(column => [column.sourceFields![0], column.name])).toEqual([
+      ['customer.firstName', 'customer_first_name'],
+      ['orderCount', 'order_count']
+    ]);
+    expect(table.rows).toEqual([{ customer_first_name: 'Ada', order_count: 2 }]);
+    const batches = [];
+    for await (const batch of createMapper(aggregate).mapStream(docs)) batches.push(batch);
+    expect(batches[0].rows).toEqual(table.rows);
+
+    const tables = createMapper({
+      mongoMappingType: 'normalize',
+      mongoArrayField: 'items',
+      fieldMappings: [],
+      options: { includeAllFields: true, columnNaming: { case: 'camel' } }
+    }).mapNormalized(docs);
+    expect(tables.root_items.rows).toEqual([{ _rootId: 1, _itemsIndex: 0, unitPrice: 2 }, { _rootId: 1, _itemsIndex: 1, unitPrice: 3 }]);
+    expect(tables.root.rows[0]).toEqual({ _id: 1, customerFirstName: 'Ada' });
+    expect(tables.root_items.metadata.foreignKeys).toEqual(['_rootId', '_itemsIndex']);
+  });
+
+  it('should reject invalid naming options', () => {
+    const config = (columnNaming: any): MappingConfig => ({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true, columnNaming } });
+    expect(() => createMapper(config({ case: 'kebab' }))).toThrow(ConfigurationError);
+    expect(() => createMapper(config({ maxLength: 8 }))).toThrow(/at least 16/);
+    expect(() => createMapper(config({ separator: '.' }))).toThrow(ConfigurationError);
+  });
+});
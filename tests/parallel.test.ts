@@ -0,0 +1,136 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Parallel Mapping Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMapper, registerTransformer, transformerRegistry, ConfigurationError, ColumnTracker } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+jest.mock('worker_threads', () => require('./support/ts-worker').tsWorkerThreads());
+jest.setTimeout(60000);
+
+describe('Parallel mapping', () => {
+  const config: MappingConfig = {
+    mongoMappingType: 'flatten',
+    fieldMappings: [],
+    options: { includeAllFields: true }
+  };
+  const objectId = (hex: string) => ({ _bsontype: 'ObjectId', toHexString: () => hex });
+  const documents: MongoDBDocument[] = Array.from({ length: 10 }, (_, i) => ({
+    _id: objectId(i.toString(16).padStart(24, '0')),
+    seq: i,
+    price: i < 5 ? i : i + 0.5,
+    createdAt: new Date(Date.UTC(2024, 0, i + 1)),
+    ...(i % 3 === 0 ? { note: `n${i}` } : {}),
+    ...(i === 9 ? { late: true } : {})
+  }));
+
+  it('should produce the same table as map()', async () => {
+    const expected = createMapper(config).map(documents);
+    const mapper = createMapper(config);
+    const result = await mapper.mapParallel(documents, { workers: 2, chunkSize: 3 });
+
+    expect(result.rows).toEqual(expected.rows);
+    expect(result.columns).toEqual(expected.columns);
+    expect(result.columns.find(column => column.name === 'price')).toEqual({ name: 'price', type: 'float', required: true });
+    expect(result.columns.find(column => column.name === 'late')).toEqual({ name: 'late', type: 'boolean', required: false });
+    expect(mapper.getStats()).toMatchObject({ totalDocuments: 10, processedRows: 10, errorCount: 0 });
+  });
+
+  it('should merge errors in document order with global row indexes', async () => {
+    const strict: MappingConfig = {
+      ...config,
+      schema: { columns: [{ name: 'seq', type: 'integer', max: 6 }], additionalColumns: true },
+      options: { includeAllFields: true, skipInvalidRows: true }
+    };
+    const sequential = createMapper(strict);
+    const expected = sequential.map(documents);
+    const mapper = createMapper(strict);
+    const result = await mapper.mapParallel(documents, { workers: 2, chunkSize: 2 });
+
+    expect(result.rows).toEqual(expected.rows);
+    const summary = (errors: ReturnType<typeof mapper.getProcessingErrors>) => errors.map(({ documentId, rowIndex, code, field }) => ({ documentId, rowIndex, code, field }));
+    expect(summary(mapper.getProcessingErrors())).toEqual(summary(sequential.getProcessingErrors()));
+    expect(mapper.getProcessingErrors().map(error => error.rowIndex)).toEqual([7, 8, 9]);
+    expect(mapper.getStats().skippedRows).toBe(3);
+  });
+
+  it('should throw the error of the first failing chunk', async () => {
+    const strict: MappingConfig = { ...config, schema: { columns: [{ name: 'seq', type: 'integer', max: 3 }], additionalColumns: true } };
+    expect(() => createMapper(strict).map(documents)).toThrow(/seq/);
+    await expect(createMapper(strict).mapParallel(documents, { workers: 2, chunkSize: 2 }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR', field: 'seq', documentId: '000000000000000000000004' });
+  });
+
+  it('should merge redaction counts and tokens from every worker', async () => {
+    const redacted: MappingConfig = { ...config, redaction: { salt: 'k', rules: [{ path: 'note', action: 'tokenize' }] } };
+    const sequential = createMapper(redacted);
+    const expected = sequential.map(documents);
+    const mapper = createMapper(redacted);
+    const result = await mapper.mapParallel(documents, { workers: 2, chunkSize: 3 });
+
+    expect(result.rows).toEqual(expected.rows);
+    expect(result.metadata.redaction).toEqual({ fields: [{ path: 'note', action: 'tokenize', count: 4 }] });
+    expect(mapper.getRedactionTokens()).toEqual(sequential.getRedactionTokens());
+  });
+
+  it('should reject configs that cannot be sent to workers', async () => {
+    const withFunction = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: 'seq', documentField: 'seq', transform: { type: 'custom', customTransform: (value: any) => value } }]
+    });
+    await expect(withFunction.mapParallel(documents)).rejects.toThrow(/fieldMappings\[0\]\.transform\.customTransform is a function/);
+    await expect(createMapper({ ...config, mongoMappingType: 'aggregate', aggregation: { groupBy: ['note'], aggregates: [{ name: 'n', op: 'count' }] } })
+      .mapParallel(documents)).rejects.toThrow(ConfigurationError);
+    await expect(createMapper(config).mapParallel(documents, { chunkSize: 0 })).rejects.toThrow(ConfigurationError);
+  });
+
+  describe('custom transform modules', () => {
+    let dir: string;
+    const shout = { name: 'shout', transform: (value: any) => `${String(value).toUpperCase()}!` };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongodb-to-table-'));
+      registerTransformer(shout);
+    });
+    afterEach(() => {
+      transformerRegistry.unregister('shout');
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load registered transforms from modules in every worker', async () => {
+      const modulePath = path.join(dir, 'shout.js');
+      fs.writeFileSync(modulePath, [
+        `const { registerTransformer } = require(${JSON.stringify(path.resolve(__dirname, '../src/transformer-registry'))});`,
+        `registerTransformer({ name: 'shout', transform: value => String(value).toUpperCase() + '!' });`
+      ].join('\n'));
+      const named: MappingConfig = {
+        mongoMappingType: 'flatten',
+        fieldMappings: [{ databaseField: 'note', documentField: 'note', transform: { type: 'custom', name: 'shout' } }]
+      };
+
+      const result = await createMapper(named).mapParallel(documents, { workers: 2, chunkSize: 4, modules: [modulePath] });
+      expect(result.rows).toEqual(createMapper(named).map(documents).rows);
+      expect(result.rows[0]).toEqual({ note: 'N0!' });
+    });
+  });
+});
+
+describe('ColumnTracker merging', () => {
+  it('should merge trackers as if the rows were observed by one', () => {
+    const rows = [{ a: 1, b: 'x' }, { a: null }, { a: 2.5, c: new Date(0) }, { a: 3, b: null }];
+    const single = new ColumnTracker();
+    rows.forEach(row => single.observe(row));
+
+    const first = new ColumnTracker();
+    const second = new ColumnTracker();
+    rows.slice(0, 2).forEach(row => first.observe(row));
+    rows.slice(2).forEach(row => second.observe(row));
+    const merged = first.merge(ColumnTracker.fromSnapshot(JSON.parse(JSON.stringify(second.snapshot()))));
+
+    expect(merged.totalRows).toBe(4);
+    expect(merged.getColumns()).toEqual(single.getColumns());
+  });
+});
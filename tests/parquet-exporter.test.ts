@@ -0,0 +1,113 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Parquet Exporter Tests
+ */
+
+import { exportToParquet, getParquetType, ExportError } from '../src';
+import { TableData } from '../src/types';
+
+/** Decodes a Thrift compact struct into a map of field id to value. */
+function readStruct(buffer: Buffer, state: { pos: number }): Record<number, any> {
+  const varint = (): bigint => {
+    let result = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const byte = buffer[state.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) return result;
+    }
+  };
+  const int = () => { const n = varint(); return Number((n >> 1n) ^ -(n & 1n)); };
+  const value = (type: number): any => {
+    switch (type) {
+      case 1: return true;
+      case 2: return false;
+      case 5: case 6: return int();
+      case 8: { const length = Number(varint()); const text = buffer.toString('utf-8', state.pos, state.pos + length); state.pos += length; return text; }
+      case 9: {
+        const header = buffer[state.pos++];
+        const size = (header >> 4) === 15 ? Number(varint()) : header >> 4;
+        return Array.from({ length: size }, () => value(header & 0x0f));
+      }
+      case 12: return readStruct(buffer, state);
+      default: throw new Error(`unexpected thrift type ${type}`);
+    }
+  };
+
+  const fields: Record<number, any> = {};
+  let id = 0;
+  for (let header = buffer[state.pos++]; header !== 0; header = buffer[state.pos++]) {
+    id = header >> 4 ? id + (header >> 4) : int();
+    fields[id] = value(header & 0x0f);
+  }
+  return fields;
+}
+
+function readFooter(file: Buffer): Record<number, any> {
+  const length = file.readUInt32LE(file.length - 8);
+  return readStruct(file, { pos: file.length - 8 - length });
+}
+
+describe('ParquetExporter', () => {
+  const data: TableData = {
+    columns: [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'name', type: 'string', required: false },
+      { name: 'created', type: 'date', required: false },
+      { name: 'score', type: 'float', required: false },
+      { name: 'price', type: 'decimal', required: false }
+    ],
+    rows: Array.from({ length: 5 }, (_, i) => ({
+      id: i + 1,
+      name: i === 2 ? null : `user${i}`,
+      created: '2024-01-01T00:00:00.000Z',
+      score: i / 2,
+      price: '19.99'
+    })),
+    metadata: { totalRows: 5, totalColumns: 5, mappingType: 'flatten', sourceCollection: 'users', generatedAt: '2024-01-01T00:00:00.000Z' }
+  };
+
+  it('should write a schema derived from the column types', () => {
+    const file = exportToParquet(data);
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    expect(file.subarray(-4).toString()).toBe('PAR1');
+
+    const footer = readFooter(file);
+    expect(footer[3]).toBe(5);
+    const [root, ...columns] = footer[2];
+    expect(root).toEqual({ 4: 'schema', 5: 5 });
+    expect(columns.map((el: any) => ({ name: el[4], type: el[1], repetition: el[3], converted: el[6] }))).toEqual([
+      { name: 'id', type: 2, repetition: 0, converted: undefined },
+      { name: 'name', type: 6, repetition: 1, converted: 0 },
+      { name: 'created', type: 2, repetition: 1, converted: 9 },
+      { name: 'score', type: 5, repetition: 1, converted: undefined },
+      { name: 'price', type: 6, repetition: 1, converted: 0 }
+    ]);
+    expect(['integer', 'long', 'float', 'boolean', 'date', 'decimal', 'objectId', 'binary'].map(getParquetType))
+      .toEqual(['INT64', 'INT64', 'DOUBLE', 'BOOLEAN', 'TIMESTAMP_MILLIS', 'STRING', 'STRING', 'BINARY']);
+  });
+
+  it('should split rows into row groups of the configured size', () => {
+    const footer = readFooter(exportToParquet(data, { parquet: { rowGroupSize: 2, compression: 'none' } }));
+    expect(footer[4].map((group: any) => group[3])).toEqual([2, 2, 1]);
+    expect(footer[4][0][1]).toHaveLength(5);
+    expect(footer[4][0][1][1][3][3]).toEqual(['name']);
+    expect(footer[4][0][1][1][3][4]).toBe(0);
+  });
+
+  it('should write PLAIN values after the definition levels', () => {
+    const file = exportToParquet({ ...data, columns: data.columns.slice(0, 2) }, { parquet: { compression: 'none' } });
+    const chunk = readFooter(file)[4][0][1][1][3];
+    const state = { pos: chunk[9] };
+    const header = readStruct(file, state);
+    expect(header[5][1]).toBe(5);
+    const levelsLength = file.readUInt32LE(state.pos);
+    const values = file.subarray(state.pos + 4 + levelsLength, state.pos + header[2]);
+    expect(file[state.pos + 5]).toBe(0b11011);
+    expect(values.toString('latin1')).toBe('\u0005\u0000\u0000\u0000user0\u0005\u0000\u0000\u0000user1\u0005\u0000\u0000\u0000user3\u0005\u0000\u0000\u0000user4');
+  });
+
+  it('should reject values that do not fit the column type', () => {
+    expect(() => exportToParquet({ ...data, rows: [{ ...data.rows[0], id: 1.5 }] })).toThrow(/column "id" row 0: cannot write "1.5" as INT64/);
+    expect(() => exportToParquet({ ...data, rows: [{ ...data.rows[0], id: null }] })).toThrow(ExportError);
+    expect(() => exportToParquet(data, { parquet: { rowGroupSize: 0 } })).toThrow(/rowGroupSize/);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Query Filter Tests
+ */
+
+import { matchesQuery, findQueryIssues, createMapper, ConfigValidationError } from '../src';
+import { MongoDBDocument } from '../src/types';
+
+describe('Query filters', () => {
+  const doc = {
+    _id: { $oid: '507f1f77bcf86cd799439011' },
+    name: 'Alice',
+    age: 30,
+    score: { $numberDecimal: '12.5' },
+    createdAt: new Date('2024-03-01T00:00:00Z'),
+    tags: ['admin', 'beta'],
+    address: { city: 'Paris', zip: null },
+    orders: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 5 }]
+  };
+
+  it('should match equality, including array membership and BSON values', () => {
+    expect(matchesQuery(doc, { name: 'Alice', tags: 'beta' })).toBe(true);
+    expect(matchesQuery(doc, { tags: ['admin', 'beta'] })).toBe(true);
+    expect(matchesQuery(doc, { _id: { $oid: '507f1f77bcf86cd799439011' } })).toBe(true);
+    expect(matchesQuery(doc, { 'address.city': { $eq: 'Paris' }, 'orders.sku': 'B' })).toBe(true);
+    expect(matchesQuery(doc, { 'orders.sku': 'C' })).toBe(false);
+  });
+
+  it('should treat null as missing or null, like MongoDB', () => {
+    expect(matchesQuery(doc, { 'address.zip': null })).toBe(true);
+    expect(matchesQuery(doc, { nickname: null })).toBe(true);
+    expect(matchesQuery(doc, { nickname: { $exists: false }, 'address.zip': { $exists: true } })).toBe(true);
+    expect(matchesQuery(doc, { name: { $ne: null } })).toBe(true);
+  });
+
+  it('should compare within the same type bracket only', () => {
+    expect(matchesQuery(doc, { age: { $gt: 18, $lte: 30 } })).toBe(true);
+    expect(matchesQuery(doc, { age: { $gt: '18' } })).toBe(false);
+    expect(matchesQuery(doc, { score: { $gte: 12 } })).toBe(true);
+    expect(matchesQuery(doc, { createdAt: { $lt: { $date: '2024-06-01T00:00:00Z' } } })).toBe(true);
+    expect(matchesQuery(doc, { 'orders.qty': { $gt: 4 } })).toBe(true);
+  });
+
+  it('should support $in, $nin, $regex, $not, $size and $all', () => {
+    expect(matchesQuery(doc, { name: { $in: ['Bob', /^al/i] } })).toBe(true);
+    expect(matchesQuery(doc, { tags: { $nin: ['guest'] } })).toBe(true);
+    expect(matchesQuery(doc, { name: { $regex: '^ali', $options: 'i' } })).toBe(true);
+    expect(matchesQuery(doc, { age: { $not: { $gt: 40 } } })).toBe(true);
+    expect(matchesQuery(doc, { tags: { $size: 2, $all: ['beta', 'admin'] } })).toBe(true);
+  });
+
+  it('should support logical operators and $elemMatch', () => {
+    expect(matchesQuery(doc, { $or: [{ age: { $lt: 18 } }, { tags: 'admin' }] })).toBe(true);
+    expect(matchesQuery(doc, { $and: [{ age: 30 }], $nor: [{ name: 'Bob' }] })).toBe(true);
+    // Each condition matches some order, but no single order matches both.
+    expect(matchesQuery(doc, { 'orders.sku': 'A', 'orders.qty': 5 })).toBe(true);
+    expect(matchesQuery(doc, { orders: { $elemMatch: { sku: 'A', qty: 5 } } })).toBe(false);
+    expect(matchesQuery(doc, { orders: { $elemMatch: { sku: 'B', qty: { $gte: 5 } } } })).toBe(true);
+    expect(matchesQuery({ scores: [3, 9] }, { scores: { $elemMatch: { $gt: 5, $lt: 10 } } })).toBe(true);
+  });
+
+  it('should report invalid operators with their path', () => {
+    expect(findQueryIssues({ age: { $gt: 1, $between: [1, 2] }, $or: [], tags: { $in: 'x' } })).toEqual([
+      { path: 'filter.age.$between', message: 'unknown operator $between' },
+      { path: 'filter.$or', message: 'must be a non-empty array' },
+      { path: 'filter.tags.$in', message: 'must be an array' }
+    ]);
+    expect(() => createMapper({ mongoMappingType: 'flatten', fieldMappings: [{ databaseField: 'a', documentField: 'a' }], filter: { a: { $regex: '(' } } }))
+      .toThrow(ConfigValidationError);
+  });
+
+  describe('in mapping configs', () => {
+    const documents: MongoDBDocument[] = [
+      { _id: 1, status: 'open', items: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 5 }, { sku: 'C', qty: 7 }] },
+      { _id: 2, status: 'closed', items: [{ sku: 'D', qty: 9 }] },
+      { _id: 3, status: 'open', items: [{ sku: 'E', qty: 2 }] }
+    ];
+
+    it('should drop documents that do not match', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'flatten',
+        filter: { status: 'open' },
+        fieldMappings: [{ databaseField: '_id', documentField: 'id' }]
+      });
+      expect(mapper.map(documents).rows).toEqual([{ id: 1 }, { id: 3 }]);
+      expect(mapper.getStats()).toMatchObject({ totalDocuments: 3, filteredDocuments: 1, processedRows: 2 });
+    });
+
+    it('should filter each expanded element in array_expand mode', () => {
+      const mapper = createMapper({
+        mongoMappingType: 'array_expand',
+        mongoArrayField: 'items',
+        filter: { status: 'open', 'items.qty': { $gte: 5 } },
+        fieldMappings: [
+          { databaseField: '_id', documentField: 'id' },
+          { databaseField: 'items[].sku', documentField: 'sku' }
+        ]
+      });
+      expect(mapper.map(documents).rows).toEqual([{ id: 1, sku: 'B' }, { id: 1, sku: 'C' }]);
+      expect(mapper.getStats()).toMatchObject({ filteredDocuments: 2, filteredRows: 1, processedRows: 2 });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - PII Redaction Tests
+ */
+
+import { createMapper, ConfigurationError, matchesPathGlob, detectPii, validateAgainstSchema, mappingConfigSchema } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('PII redaction', () => {
+  const customers: MongoDBDocument[] = [
+    {
+      _id: 1,
+      name: 'Ada',
+      email: 'ada@example.com',
+      billing: { email: 'billing@example.com', card: '4111111111111111' },
+      contacts: [{ phone: '+44 20 7946 0018' }, { phone: '+44 20 7946 0019' }],
+      ssn: '123-45-6789'
+    },
+    { _id: 2, name: 'Bob', email: 'bob@example.com', billing: { email: null, card: '5500005555555559' }, contacts: [], ssn: '987-65-4321' }
+  ];
+
+  it('should match flattened paths with globs', () => {
+    expect(matchesPathGlob('*.email', 'billing.email')).toBe(true);
+    expect(matchesPathGlob('*.email', 'email')).toBe(false);
+    expect(matchesPathGlob('**.email', 'email')).toBe(true);
+    expect(matchesPathGlob('**.email', 'a.b.email')).toBe(true);
+    expect(matchesPathGlob('contact*.phone', 'contacts.phone')).toBe(true);
+    expect(matchesPathGlob('contacts.phone', 'contacts[1].phone')).toBe(true);
+    expect(matchesPathGlob('contacts[].phone', 'contacts.phone')).toBe(true);
+  });
+
+  it('should drop, mask, hash and tokenize matching fields', () => {
+    const mapper = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [],
+      redaction: {
+        salt: 's3cret',
+        rules: [
+          { path: 'ssn', action: 'drop' },
+          { path: '**.card', action: 'mask', keepEnd: 4 },
+          { path: 'email', action: 'hash' },
+          { path: '*.email', action: 'tokenize' },
+          { path: 'contacts.phone', action: 'mask', keepStart: 3, keepEnd: 0, maskChar: '#' }
+        ]
+      },
+      options: { includeAllFields: true }
+    });
+    const table = mapper.map(customers);
+    const [ada, bob] = table.rows;
+
+    expect(ada.ssn).toBeUndefined();
+    expect(table.columns.map(column => column.name)).not.toContain('ssn');
+    expect(ada['billing.card']).toBe('************1111');
+    expect(ada.email).toMatch(/^[0-9a-f]{64}$/);
+    expect(ada.email).not.toBe(bob.email);
+    expect(mapper.map(customers).rows[0].email).toBe(ada.email);
+    expect(ada['billing.email']).toMatch(/^tok_[0-9a-f]{16}$/);
+    expect(bob['billing.email']).toBeNull();
+    expect([ada['contacts[0].phone'], ada['contacts[1].phone']]).toEqual(['+44#############', '+44#############']);
+
+    expect(mapper.getRedactionTokens()).toEqual({ [ada['billing.email']]: 'billing@example.com' });
+    expect(table.metadata.redaction).toEqual({
+      fields: [
+        { path: 'billing.card', action: 'mask', count: 2 },
+        { path: 'billing.email', action: 'tokenize', count: 1 },
+        { path: 'contacts.phone', action: 'mask', count: 2 },
+        { path: 'email', action: 'hash', count: 2 },
+        { path: 'ssn', action: 'drop', count: 2 }
+      ]
+    });
+  });
+
+  it('should give equal hashes for equal values so joins still work', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: 'email', documentField: 'email' }],
+      redaction: { salt: 'k', rules: [{ path: 'email', action: 'hash' }] }
+    };
+    const rows = createMapper(config).map([{ _id: 1, email: 'a@x.io' }, { _id: 2, email: 'a@x.io' }]).rows;
+    expect(rows[0].email).toBe(rows[1].email);
+    const otherSalt = createMapper({ ...config, redaction: { salt: 'other', rules: config.redaction!.rules } }).map([{ _id: 1, email: 'a@x.io' }]).rows;
+    expect(otherSalt[0].email).not.toBe(rows[0].email);
+  });
+
+  it('should redact array elements before they are expanded', () => {
+    const table = createMapper({
+      mongoMappingType: 'array_expand',
+      mongoArrayField: 'contacts',
+      fieldMappings: [{ databaseField: 'contacts[].phone', documentField: 'phone' }],
+      redaction: { rules: [{ path: 'contacts.phone', action: 'mask', keepEnd: 2 }] }
+    }).map(customers);
+    expect(table.rows.map(row => row.phone)).toEqual(['**************18', '**************19']);
+  });
+
+  it('should flag likely PII in unmapped columns', () => {
+    const table = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [],
+      redaction: { rules: [{ path: 'email', action: 'drop' }], detectPii: true },
+      options: { includeAllFields: true }
+    }).map(customers);
+    expect(table.metadata.redaction?.detected).toEqual([
+      { column: 'billing.card', kinds: ['card'], rows: 2 },
+      { column: 'ssn', kinds: ['ssn'], rows: 2 },
+      { column: 'billing.email', kinds: ['email'], rows: 1 },
+      { column: 'contacts[0].phone', kinds: ['phone'], rows: 1 },
+      { column: 'contacts[1].phone', kinds: ['phone'], rows: 1 }
+    ]);
+  });
+
+  it('should tell phone numbers from dates and ids', () => {
+    const rows = [{ v: '2024-01-31' }, { v: '(555) 123-4567' }, { v: '12345' }, { v: 'see 4111 1111 1111 1111' }];
+    expect(detectPii(rows, ['v'])).toEqual([{ column: 'v', kinds: ['card', 'phone'], rows: 2 }]);
+  });
+
+  it('should validate redaction policies', () => {
+    const base: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } };
+    expect(() => createMapper({ ...base, redaction: { rules: [{ path: 'email', action: 'hash' }] } })).toThrow(/salt is required/);
+    expect(() => createMapper({ ...base, redaction: { rules: [{ path: 'email', action: 'blur' as any }] } })).toThrow(ConfigurationError);
+    expect(validateAgainstSchema({ ...base, redaction: { rules: [{ path: 'email', action: 'mask', keepEnd: -1 }] } }, mappingConfigSchema)).toEqual([
+      { path: 'redaction.rules[0].keepEnd', message: 'must be >= 0 but got -1' }
+    ]);
+  });
+});
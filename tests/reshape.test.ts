@@ -0,0 +1,80 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Pivot / Unpivot Tests
+ */
+
+import { createMapper, pivotTable, unpivotTable, ValidationError } from '../src';
+import { MongoDBDocument, TableData } from '../src/types';
+
+describe('Table reshaping', () => {
+  const documents: MongoDBDocument[] = [
+    { _id: 1, store: 'north', sales: [{ month: '2024-02', amount: 5 }, { month: '2024-01', amount: 10 }, { month: '2024-01', amount: 2 }] },
+    { _id: 2, store: 'south', sales: [{ month: '2024-03', amount: 7.5 }] }
+  ];
+
+  const long: TableData = createMapper({
+    mongoMappingType: 'array_expand',
+    mongoArrayField: 'sales',
+    fieldMappings: [
+      { databaseField: 'store', documentField: 'store' },
+      { databaseField: 'sales[].month', documentField: 'month' },
+      { databaseField: 'sales[].amount', documentField: 'amount' }
+    ]
+  }).map(documents);
+
+  it('should pivot long rows into one column per key', () => {
+    const wide = pivotTable(long, { index: ['store'], columns: 'month', values: 'amount', prefix: 'm_' });
+
+    expect(wide.rows).toEqual([
+      { store: 'north', 'm_2024-01': 12, 'm_2024-02': 5, 'm_2024-03': null },
+      { store: 'south', 'm_2024-01': null, 'm_2024-02': null, 'm_2024-03': 7.5 }
+    ]);
+    expect(wide.columns.map(col => `${col.name}:${col.type}:${col.required}`)).toEqual([
+      'store:string:true', 'm_2024-01:float:false', 'm_2024-02:float:false', 'm_2024-03:float:false'
+    ]);
+    expect(wide.metadata).toMatchObject({
+      totalRows: 2,
+      totalColumns: 4,
+      reshape: { operation: 'pivot', index: ['store'], keyColumn: 'month', valueColumn: 'amount', aggregate: 'sum' }
+    });
+  });
+
+  it('should support other aggregates and fill values', () => {
+    const counts = pivotTable(long, { index: ['store'], columns: 'month', values: 'amount', aggregate: 'count', fillValue: 0 });
+    expect(counts.rows[0]).toEqual({ store: 'north', '2024-01': 2, '2024-02': 1, '2024-03': 0 });
+    expect(counts.columns[1]).toEqual({ name: '2024-01', type: 'integer', required: true });
+  });
+
+  it('should refuse to generate more columns than maxColumns', () => {
+    expect(() => pivotTable(long, { index: ['store'], columns: 'month', values: 'amount', maxColumns: 2 }))
+      .toThrow(ValidationError);
+    expect(() => pivotTable(long, { index: ['store'], columns: 'month', values: 'missing' })).toThrow(/unknown column\(s\): missing/);
+  });
+
+  it('should refuse pivot values that would share a column', () => {
+    const table = (values: any[]): TableData => ({
+      columns: [{ name: 'id', type: 'integer', required: true }, { name: 'key', type: 'unknown', required: false }, { name: 'n', type: 'integer', required: true }],
+      rows: values.map((key, i) => ({ id: 1, key, n: i + 1 })),
+      metadata: { totalRows: values.length, totalColumns: 3, mappingType: 'flatten', sourceCollection: 'test', generatedAt: '' }
+    });
+    expect(() => pivotTable(table([1, '1']), { index: ['id'], columns: 'key', values: 'n' })).toThrow(/pivot values 1 and "1" of "key" would both become column "1"/);
+    expect(() => pivotTable(table([null, 'null']), { index: ['id'], columns: 'key', values: 'n' })).toThrow(ValidationError);
+    expect(pivotTable(table([null, undefined, 2]), { index: ['id'], columns: 'key', values: 'n' }).rows).toEqual([{ id: 1, 2: 3, null: 3 }]);
+  });
+
+  it('should unpivot a wide table back into key/value rows', () => {
+    const wide = pivotTable(long, { index: ['store'], columns: 'month', values: 'amount' });
+    const back = unpivotTable(wide, { index: ['store'], keyColumn: 'month', valueColumn: 'amount', dropNulls: true });
+
+    expect(back.rows).toEqual([
+      { store: 'north', month: '2024-01', amount: 12 },
+      { store: 'north', month: '2024-02', amount: 5 },
+      { store: 'south', month: '2024-03', amount: 7.5 }
+    ]);
+    expect(back.columns).toEqual([
+      { name: 'store', type: 'string', required: true },
+      { name: 'month', type: 'string', required: true },
+      { name: 'amount', type: 'float', required: true }
+    ]);
+    expect(back.metadata.reshape).toEqual({ operation: 'unpivot', index: ['store'], keyColumn: 'month', valueColumn: 'amount' });
+  });
+});
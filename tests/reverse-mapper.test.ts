@@ -0,0 +1,109 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Reverse Mapping Tests
+ */
+
+import { createMapper, createReverseMapper, exportToCSV, parseCSV, setNestedValue } from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+import { ValidationError } from '../src/errors';
+
+describe('parseCSV', () => {
+  it('should parse quoted fields, escaped quotes and embedded newlines', () => {
+    const table = parseCSV('"id","note"\r\n"1","say ""hi"""\n"2","multi\nline"\n"3",""');
+    expect(table.columns.map(c => c.name)).toEqual(['id', 'note']);
+    expect(table.rows).toEqual([
+      { id: '1', note: 'say "hi"' },
+      { id: '2', note: 'multi\nline' },
+      { id: '3', note: null }
+    ]);
+  });
+
+  it('should round-trip CSVExporter output', () => {
+    const data = createMapper({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } })
+      .map([{ _id: 1, name: 'A, "B"' }, { _id: 2, name: null }]);
+    const parsed = parseCSV(exportToCSV(data));
+    expect(parsed.rows).toEqual([{ _id: '1', name: 'A, "B"' }, { _id: '2', name: null }]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCSV('"id"\n"1')).toThrow(ValidationError);
+  });
+});
+
+describe('TableToMongoDBMapper', () => {
+  it('should rebuild nested documents from dotted keys using field mappings', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'flatten',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'id', transform: { type: 'number' } },
+        { databaseField: 'user.profile.name', documentField: 'name' },
+        { databaseField: 'user.active', documentField: 'active', transform: { type: 'boolean' } },
+        { databaseField: 'tags', documentField: 'tags' }
+      ]
+    };
+    const csv = exportToCSV(createMapper(config).map([{ _id: 1, user: { profile: { name: 'John' }, active: true }, tags: ['a', 'b'] }]));
+    const docs = createReverseMapper(config).unmap(parseCSV(csv));
+    expect(docs).toEqual([{ _id: 1, user: { profile: { name: 'John' }, active: true }, tags: ['a', 'b'] }]);
+  });
+
+  it('should rebuild arrays from indexed keys', () => {
+    const config: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } };
+    const original = { _id: 1, items: [{ sku: 'A' }, { sku: 'B', qty: 2 }] };
+    const table = createMapper(config).map([original]);
+    expect(createReverseMapper(config).unmap(table)).toEqual([original]);
+  });
+
+  it('should regroup array_expand rows by _id', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'array_expand',
+      mongoArrayField: 'comments',
+      fieldMappings: [
+        { databaseField: '_id', documentField: 'post_id' },
+        { databaseField: 'title', documentField: 'title' },
+        { databaseField: 'comments[].user', documentField: 'user' }
+      ]
+    };
+    const documents: MongoDBDocument[] = [
+      { _id: 'p1', title: 'First', comments: [{ user: 'Alice' }, { user: 'Bob' }] },
+      { _id: 'p2', title: 'Second', comments: [{ user: 'Carol' }] }
+    ];
+    expect(createReverseMapper(config).unmap(createMapper(config).map(documents))).toEqual(documents);
+  });
+
+  it('should rebuild nested arrays and keep duplicate elements apart by index', () => {
+    const config: MappingConfig = {
+      mongoMappingType: 'array_expand',
+      mongoArrayFields: ['orders[].items[]', 'tags'],
+      fieldMappings: [],
+      options: { includeAllFields: true, includeArrayIndex: true }
+    };
+    const documents: MongoDBDocument[] = [{
+      _id: 1,
+      tags: ['x', 'y'],
+      orders: [{ id: 'o1', items: [{ sku: 'A' }, { sku: 'A' }] }, { id: 'o2', items: [{ sku: 'C' }] }]
+    }];
+    const [doc] = createReverseMapper(config).unmap(createMapper(config).map(documents));
+    expect(doc).toEqual(documents[0]);
+  });
+
+  it('should set nested values with array indexes', () => {
+    const doc: Record<string, any> = {};
+    setNestedValue(doc, 'a.b[1].c', 5);
+    expect(doc).toEqual({ a: { b: [undefined, { c: 5 }] } });
+  });
+
+  it('should reject header paths that would reach object prototypes', () => {
+    const config: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } };
+    for (const header of ['__proto__.polluted', 'a.constructor.prototype.polluted', 'a[0].__proto__']) {
+      expect(() => createReverseMapper(config).unmap(parseCSV(`_id,${header}\n1,yes\n`))).toThrow(ValidationError);
+    }
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('should keep columns named like Object members', () => {
+    const config: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } };
+    expect(createReverseMapper(config).unmap(parseCSV('_id,toString,valueOf\n1,a,b\n'))).toEqual([{ _id: '1', toString: 'a', valueOf: 'b' }]);
+
+    const mapped: MappingConfig = { mongoMappingType: 'flatten', fieldMappings: [{ databaseField: 'label', documentField: 'hasOwnProperty' }] };
+    expect(createReverseMapper(mapped).unmap([{}])).toEqual([{}]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - SQL Exporter Tests
+ */
+
+import { exportToSQL, createMapper, getSQLType } from '../src';
+import { TableData } from '../src/types';
+import { ConfigurationError } from '../src/errors';
+
+describe('SQLExporter', () => {
+  const data: TableData = {
+    columns: [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'name', type: 'string', required: true },
+      { name: 'active', type: 'boolean', required: false },
+      { name: 'created', type: 'date', required: false }
+    ],
+    rows: [
+      { id: 1, name: "O'Brien", active: true, created: '2024-01-01T10:00:00.000Z' },
+      { id: 2, name: 'Tab\there\\', active: null, created: null }
+    ],
+    metadata: { totalRows: 2, totalColumns: 4, mappingType: 'flatten', sourceCollection: 'users', generatedAt: '2024-01-01T00:00:00.000Z' }
+  };
+
+  it('should create a PostgreSQL table from the columns', () => {
+    const sql = exportToSQL(data);
+    expect(sql).toContain([
+      'CREATE TABLE IF NOT EXISTS "users" (',
+      '  "id" BIGINT NOT NULL,',
+      '  "name" TEXT NOT NULL,',
+      '  "active" BOOLEAN,',
+      '  "created" TIMESTAMPTZ',
+      ');'
+    ].join('\n'));
+  });
+
+  it('should emit escaped INSERT statements', () => {
+    const sql = exportToSQL(data, { sql: { createTable: false } });
+    expect(sql).toBe([
+      'INSERT INTO "users" ("id", "name", "active", "created") VALUES',
+      "  (1, 'O''Brien', TRUE, '2024-01-01T10:00:00.000Z'),",
+      "  (2, 'Tab\there\\', NULL, NULL);"
+    ].join('\n'));
+  });
+
+  it('should split inserts into batches', () => {
+    const sql = exportToSQL(data, { sql: { createTable: false, batchSize: 1 } });
+    expect(sql.match(/INSERT INTO/g)).toHaveLength(2);
+  });
+
+  it('should reject batch sizes that are not positive integers', () => {
+    for (const batchSize of [0, -1, 1.5]) {
+      expect(() => exportToSQL(data, { sql: { batchSize } })).toThrow(ConfigurationError);
+    }
+  });
+
+  it('should use MySQL quoting, escaping and types', () => {
+    const sql = exportToSQL(data, { sql: { dialect: 'mysql' } });
+    expect(sql).toContain('`created` DATETIME(3)');
+    expect(sql).toContain("(1, 'O''Brien', TRUE, '2024-01-01 10:00:00.000')");
+    expect(sql).toContain("'Tab\there\\\\'");
+  });
+
+  it('should use SQLite types and boolean literals', () => {
+    const sql = exportToSQL(data, { sql: { dialect: 'sqlite', tableName: 'people' } });
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "people"');
+    expect(sql).toContain('"active" INTEGER');
+    expect(sql).toContain("(1, 'O''Brien', 1, ");
+  });
+
+  it('should emit a PostgreSQL COPY block', () => {
+    const sql = exportToSQL(data, { sql: { statement: 'copy', createTable: false } });
+    expect(sql).toBe([
+      'COPY "users" ("id", "name", "active", "created") FROM STDIN;',
+      "1\tO'Brien\tt\t2024-01-01T10:00:00.000Z",
+      '2\tTab\\there\\\\\t\\N\t\\N',
+      '\\.'
+    ].join('\n'));
+  });
+
+  it('should reject COPY for other dialects', () => {
+    expect(() => exportToSQL(data, { sql: { dialect: 'mysql', statement: 'copy' } })).toThrow(ConfigurationError);
+  });
+
+  it('should map BSON column types', () => {
+    expect(getSQLType('objectId')).toBe('CHAR(24)');
+    expect(getSQLType('decimal', 'mysql')).toBe('DECIMAL(38,10)');
+    expect(getSQLType('unknown', 'sqlite')).toBe('TEXT');
+  });
+
+  it('should take the table name from the mapping config', () => {
+    const mapper = createMapper({ mongoMappingType: 'flatten', sourceTableName: 'orders', fieldMappings: [{ databaseField: '_id', documentField: 'id' }] });
+    const sql = mapper.export(mapper.map([{ _id: 7 }]), { format: 'sql' });
+    expect(sql).toContain('INSERT INTO "orders" ("id") VALUES\n  (7);');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Streaming Exporter Tests
+ */
+
+import { Writable } from 'stream';
+import { createMapper, createStreamExporter, exportStream } from '../src';
+import { MongoDBDocument, TableColumn } from '../src/types';
+import { ExportError, ValidationError } from '../src/errors';
+
+class MemoryWritable extends Writable {
+  public chunks: string[] = [];
+  public drainCount = 0;
+
+  constructor(highWaterMark?: number) {
+    super({ highWaterMark, decodeStrings: false });
+    this.on('drain', () => this.drainCount++);
+  }
+
+  _write(chunk: any, _encoding: string, callback: (error?: Error | null) => void): void {
+    this.chunks.push(String(chunk));
+    setImmediate(callback);
+  }
+
+  get output(): string { return this.chunks.join(''); }
+}
+
+describe('Streaming Exporters', () => {
+  const columns: TableColumn[] = [
+    { name: 'id', type: 'integer', required: true },
+    { name: 'name', type: 'string', required: true }
+  ];
+
+  it('should write CSV header first and rows incrementally', async () => {
+    const stream = new MemoryWritable();
+    const exporter = createStreamExporter(stream, { format: 'csv' });
+    await exporter.writeHeader(columns);
+    await exporter.writeRows([{ id: 1, name: 'John' }]);
+    await exporter.writeRows([{ id: 2, name: 'Jane "J"' }]);
+    await exporter.end();
+    expect(stream.output).toBe('"id","name"\n"1","John"\n"2","Jane ""J"""');
+  });
+
+  it('should produce valid JSON with delimiters between chunks', async () => {
+    const stream = new MemoryWritable();
+    const exporter = createStreamExporter(stream, { format: 'json' });
+    await exporter.writeHeader(columns);
+    await exporter.writeRows([{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]);
+    await exporter.writeRows([{ id: 3, name: 'Jim' }]);
+    await exporter.end({ sourceCollection: 'users' });
+    const parsed = JSON.parse(stream.output);
+    expect(parsed.data).toHaveLength(3);
+    expect(parsed.columns).toEqual(columns);
+    expect(parsed.metadata).toEqual({ sourceCollection: 'users', totalRows: 3, totalColumns: 2 });
+  });
+
+  it('should produce valid JSON arrays without headers', async () => {
+    for (const format of ['json', 'array'] as const) {
+      const stream = new MemoryWritable();
+      const exporter = createStreamExporter(stream, { format, headers: false });
+      await exporter.writeHeader(columns);
+      await exporter.end();
+      expect(JSON.parse(stream.output)).toEqual([]);
+    }
+  });
+
+  it('should write array rows in column order', async () => {
+    const stream = new MemoryWritable();
+    const exporter = createStreamExporter(stream, { format: 'array' });
+    await exporter.writeHeader(columns);
+    await exporter.writeRows([{ name: 'John', id: 1 }]);
+    await exporter.end();
+    expect(JSON.parse(stream.output)).toEqual([['id', 'name'], [1, 'John']]);
+  });
+
+  it('should reject rows written before the header', async () => {
+    const exporter = createStreamExporter(new MemoryWritable(), { format: 'csv' });
+    await expect(exporter.writeRows([{ id: 1 }])).rejects.toThrow(ExportError);
+  });
+
+  it('should respect backpressure from the writable', async () => {
+    const stream = new MemoryWritable(16);
+    const exporter = createStreamExporter(stream, { format: 'csv' });
+    await exporter.writeHeader(columns);
+    for (let i = 0; i < 20; i++) await exporter.writeRows([{ id: i, name: `User ${i}` }]);
+    await exporter.end();
+    expect(stream.drainCount).toBeGreaterThan(0);
+    expect(stream.output.split('\n')).toHaveLength(21);
+  });
+
+  it('should keep a single error listener when the stream fails while full', async () => {
+    const stream = new Writable({
+      highWaterMark: 1,
+      write: (_chunk, _encoding, callback) => setImmediate(() => callback(new Error('disk full')))
+    });
+    const exporter = createStreamExporter(stream, { format: 'csv' });
+    await expect(exporter.writeHeader(columns)).rejects.toThrow(/Export failed \(csv\): disk full/);
+    expect(stream.listenerCount('drain')).toBe(0);
+    expect(stream.listenerCount('error')).toBe(1);
+
+    const healthy = new MemoryWritable(16);
+    await exportStream(createMapper({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } }).mapStream([{ _id: 1 }]), healthy, { format: 'csv' });
+    expect(healthy.listenerCount('error')).toBe(1);
+  });
+
+  it('should reject the next write when the stream fails after an accepted write', async () => {
+    const stream = new Writable({
+      highWaterMark: 1024,
+      write: (_chunk, _encoding, callback) => setImmediate(() => callback(new Error('disk full')))
+    });
+    const exporter = createStreamExporter(stream, { format: 'csv' });
+    await exporter.writeHeader(columns);
+    await new Promise(resolve => setImmediate(resolve));
+    await expect(exporter.writeRows([{ name: 'Ann' }])).rejects.toThrow(/Export failed \(csv\): disk full/);
+    await expect(exporter.end()).rejects.toThrow(/disk full/);
+  });
+
+  it('should pipe mapper batches straight to a writable', async () => {
+    async function* documents(): AsyncGenerator<MongoDBDocument> {
+      for (let i = 1; i <= 5; i++) yield { _id: i, name: `User ${i}` };
+    }
+    const mapper = createMapper({
+      mongoMappingType: 'flatten',
+      fieldMappings: [{ databaseField: '_id', documentField: 'id' }, { databaseField: 'name', documentField: 'name' }]
+    });
+    const stream = new MemoryWritable();
+    const result = await exportStream(mapper.mapStream(documents(), { batchSize: 2 }), stream, { format: 'json', headers: false });
+    expect(result.rowsWritten).toBe(5);
+    expect(JSON.parse(stream.output)[4]).toEqual({ id: 5, name: 'User 5' });
+  });
+
+  it('should reject a later batch with fields missing from the header', async () => {
+    const mapper = createMapper({ mongoMappingType: 'flatten', fieldMappings: [], options: { includeAllFields: true } });
+    const stream = new MemoryWritable();
+    const batches = mapper.mapStream([{ _id: 1, name: 'Ann' }, { _id: 2, name: 'Bob', email: 'bob@example.com' }], { batchSize: 1 });
+    const result = exportStream(batches, stream, { format: 'csv' });
+    await expect(result).rejects.toThrow(ValidationError);
+    await expect(result).rejects.toThrow(/email is not among the columns of the header/);
+    expect(stream.output).not.toContain('Bob');
+  });
+});
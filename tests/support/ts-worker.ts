@@ -0,0 +1,40 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - TypeScript Worker Shim for Tests
+ */
+
+import * as fs from 'fs';
+
+/**
+ * Under ts-jest there is no compiled `parallel-worker.js` next to the sources.
+ * This loads the `.ts` worker instead, transpiling each module on require.
+ */
+const BOOTSTRAP = `
+const fs = require('fs');
+const ts = require('typescript');
+const { workerData } = require('worker_threads');
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+  module._compile(outputText, filename);
+};
+require(workerData.tsEntry);
+`;
+
+/** A `worker_threads` replacement for `jest.mock` whose Worker falls back to the `.ts` source of a missing `.js` script. */
+export function tsWorkerThreads(): typeof import('worker_threads') {
+  const actual = jest.requireActual<typeof import('worker_threads')>('worker_threads');
+  class TsWorker extends actual.Worker {
+    constructor(filename: string | URL, options: import('worker_threads').WorkerOptions = {}) {
+      const script = String(filename);
+      const tsEntry = script.replace(/\.js$/, '.ts');
+      if (script.endsWith('.js') && !fs.existsSync(script) && fs.existsSync(tsEntry)) {
+        super(BOOTSTRAP, { ...options, eval: true, workerData: { ...options.workerData, tsEntry } });
+      } else {
+        super(filename, options);
+      }
+    }
+  }
+  return { ...actual, Worker: TsWorker };
+}
@@ -0,0 +1,135 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - Transformer Registry Tests
+ */
+
+import {
+  createMapper,
+  registerTransformer,
+  transformerRegistry,
+  TransformerRegistry,
+  transformValue,
+  mapTableToMongoDB,
+  ConfigValidationError,
+  ConfigurationError
+} from '../src';
+import { MappingConfig, MongoDBDocument } from '../src/types';
+
+describe('Transformer registry', () => {
+  const map = (fieldMappings: MappingConfig['fieldMappings'], documents: MongoDBDocument[]) =>
+    createMapper({ mongoMappingType: 'flatten', fieldMappings }).map(documents).rows;
+
+  it('should apply parameterized built-ins', () => {
+    const doc = { _id: 1, name: '  ada LOVELACE ', sku: 'AB-1234-X', price: 1234.5678, status: 'A', card: '4111111111111111' };
+    const [row] = map([
+      { databaseField: 'name', documentField: 'name', transform: [{ type: 'trim' }, { type: 'titlecase' }] },
+      { databaseField: 'sku', documentField: 'code', transform: { type: 'extract', params: { pattern: '-(\\d+)-' } } },
+      { databaseField: 'sku', documentField: 'sku', transform: { type: 'replace', params: { pattern: '-', replacement: '' } } },
+      { databaseField: 'price', documentField: 'price', transform: { type: 'round', params: { decimals: 2 } } },
+      { databaseField: 'price', documentField: 'price_text', transform: { type: 'formatNumber', params: { decimals: 1 } } },
+      { databaseField: 'status', documentField: 'status', transform: { type: 'lookup', params: { values: { A: 'active', I: 'inactive' } } } },
+      { databaseField: 'card', documentField: 'card', transform: { type: 'mask', params: { keepEnd: 4, char: '#' } } },
+      { databaseField: 'card', documentField: 'card_hash', transform: { type: 'hash', params: { algorithm: 'md5' } } }
+    ], [doc]);
+
+    expect(row).toEqual({
+      name: 'Ada Lovelace',
+      code: '1234',
+      sku: 'AB1234X',
+      price: 1234.57,
+      price_text: '1,234.6',
+      status: 'active',
+      card: '############1111',
+      card_hash: expect.stringMatching(/^[0-9a-f]{32}$/)
+    });
+  });
+
+  it('should give coalesce and template access to the whole document', () => {
+    const rows = map([
+      { databaseField: 'nickname', documentField: 'display', transform: { type: 'coalesce', params: { fields: ['profile.first', 'email'] } } },
+      { databaseField: 'profile.first', documentField: 'label', transform: { type: 'template', params: { template: '{{value}} <{{email}}>' } } }
+    ], [
+      { _id: 1, email: 'a@x.io', profile: { first: 'Ann' } },
+      { _id: 2, nickname: 'bo', email: 'b@x.io', profile: {} }
+    ]);
+
+    expect(rows).toEqual([
+      { display: 'Ann', label: 'Ann <a@x.io>' },
+      { display: 'bo', label: ' <b@x.io>' }
+    ]);
+  });
+
+  it('should register custom transformers with typed params', () => {
+    registerTransformer<{ prefix: string }>({
+      name: 'prefixed',
+      params: { prefix: { type: 'string', required: true } },
+      transform: (value, { prefix }, context) => `${prefix}${value}@${context.fieldPath}`,
+      reverse: (value, { prefix }) => String(value).slice(prefix.length).split('@')[0]
+    });
+    try {
+      const fieldMappings = [{ databaseField: 'code', documentField: 'code', transform: { type: 'prefixed', params: { prefix: 'X-' } } }];
+      expect(map(fieldMappings, [{ _id: 1, code: 7 }])).toEqual([{ code: 'X-7@code' }]);
+      expect(mapTableToMongoDB([{ code: 'X-7@code' }], { mongoMappingType: 'flatten', fieldMappings })).toEqual([{ code: '7' }]);
+      expect(() => registerTransformer({ name: 'prefixed', transform: v => v })).toThrow(ConfigurationError);
+    } finally {
+      transformerRegistry.unregister('prefixed');
+    }
+  });
+
+  it('should reject unknown transformers and bad params when the mapper is created', () => {
+    try {
+      createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [
+          { databaseField: 'a', documentField: 'a', transform: { type: 'nope' } },
+          { databaseField: 'b', documentField: 'b', transform: [{ type: 'trim' }, { type: 'round', params: { decimals: 1.5, places: 2 } }] }
+        ]
+      });
+      fail('expected ConfigValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).issues).toEqual([
+        { path: 'fieldMappings[0].transform.type', message: 'unknown transform "nope"' },
+        { path: 'fieldMappings[1].transform[1].params.decimals', message: 'must be integer' },
+        { path: 'fieldMappings[1].transform[1].params.places', message: 'is not a parameter of "round"' }
+      ]);
+    }
+  });
+
+  it('should reject malformed regex params when the mapper is created', () => {
+    try {
+      createMapper({
+        mongoMappingType: 'flatten',
+        fieldMappings: [
+          { databaseField: 'a', documentField: 'a', transform: { type: 'replace', params: { pattern: '(' } } },
+          { databaseField: 'b', documentField: 'b', transform: { type: 'extract', params: { pattern: 'x', flags: 'q' } } }
+        ]
+      });
+      fail('expected ConfigValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).issues).toEqual([
+        { path: 'fieldMappings[0].transform.params.pattern', message: expect.stringMatching(/^is not a valid regular expression with flags "g": /) },
+        { path: 'fieldMappings[1].transform.params.pattern', message: expect.stringMatching(/^is not a valid regular expression with flags "q": /) }
+      ]);
+    }
+  });
+
+  it('should mask values no longer than the kept characters entirely', () => {
+    expect(transformValue('1234', { type: 'mask', params: { keepEnd: 4 } })).toBe('****');
+    expect(transformValue('abc', { type: 'mask', params: { keepStart: 2, keepEnd: 2, char: '#' } })).toBe('###');
+  });
+
+  it('should wrap transformer failures in TransformationError', () => {
+    expect(() => transformValue('abc', { type: 'round' }, { fieldPath: 'price', documentId: '1' }))
+      .toThrow('Transformation failed for field "price": "abc" is not a number');
+    expect(() => transformValue('Z', { type: 'lookup', params: { values: { A: 1 }, strict: true } }))
+      .toThrow(/"Z" is not one of A/);
+  });
+
+  it('should keep separate registries independent', () => {
+    const registry = new TransformerRegistry().register({ name: 'double', transform: (v: any) => v * 2 });
+    expect(registry.list().map(def => def.name)).toEqual(['double']);
+    expect(transformerRegistry.has('double')).toBe(false);
+    expect(() => registry.register({ name: 'number', transform: v => v })).toThrow(/reserved/);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * MongoDB to 2D Table Mapping Skill - XLSX Exporter Tests
+ */
+
+import { inflateRawSync } from 'zlib';
+import { exportToXLSX, exportTablesToXLSX, createExporter } from '../src';
+import { TableData } from '../src/types';
+
+/** Reads the entries of a deflate/stored ZIP archive by walking its local headers. */
+function unzip(buffer: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const method = buffer.readUInt16LE(offset + 8);
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf-8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = buffer.subarray(start, start + size);
+    files[name] = (method === 8 ? inflateRawSync(data) : data).toString('utf-8');
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('XLSXExporter', () => {
+  const data: TableData = {
+    columns: [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'name', type: 'string', required: true },
+      { name: 'active', type: 'boolean', required: false },
+      { name: 'created', type: 'date', required: false },
+      { name: 'big', type: 'long', required: false },
+      { name: 'zip', type: 'string', required: false }
+    ],
+    rows: [
+      { id: 1, name: 'Ann & <Co>', active: true, created: '2024-01-02T12:00:00.000Z', big: '9007199254740993', zip: '01234' },
+      { id: 2, name: 'Bob', active: null, created: null, big: '42', zip: null }
+    ],
+    metadata: { totalRows: 2, totalColumns: 6, mappingType: 'flatten', sourceCollection: 'users', generatedAt: '2024-01-01T00:00:00.000Z' }
+  };
+
+  it('should write a valid OOXML package', () => {
+    const files = unzip(exportToXLSX(data));
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="users" sheetId="1" r:id="rId1"/>');
+    expect(files['[Content_Types].xml']).toContain('PartName="/xl/worksheets/sheet1.xml"');
+  });
+
+  it('should write typed cells from the column types', () => {
+    const sheet = unzip(exportToXLSX(data))['xl/worksheets/sheet1.xml'];
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">id</t></is></c>');
+    expect(sheet).toContain('<c r="A2"><v>1</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Ann &amp; &lt;Co&gt;</t>');
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<c r="D2" s="2"><v>45293.5</v></c>');
+    // Too many digits for Excel: kept as text. Leading zeros in string columns too.
+    expect(sheet).toContain('<c r="E2" t="inlineStr"><is><t xml:space="preserve">9007199254740993</t></is></c>');
+    expect(sheet).toContain('<c r="E3"><v>42</v></c>');
+    expect(sheet).toContain('<c r="F2" t="inlineStr"><is><t xml:space="preserve">01234</t></is></c>');
+    expect(sheet).toContain('<row r="3"><c r="A3"><v>2</v></c>');
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+  });
+
+  it('should put several tables into one workbook', () => {
+    const files = unzip(exportTablesToXLSX({ 'orders/2024': data, orders_2024: data, users: { ...data, rows: [] } }, { xlsx: { freezeHeader: false } }));
+    expect(files['xl/workbook.xml']).toContain('<sheet name="orders_2024" sheetId="1" r:id="rId1"/><sheet name="orders_2024 (2)" sheetId="2" r:id="rId2"/><sheet name="users" sheetId="3" r:id="rId3"/>');
+    expect(files['xl/_rels/workbook.xml.rels']).toContain('<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>');
+    expect(files['xl/worksheets/sheet3.xml']).toContain('<sheetData><row r="1">');
+    expect(files['xl/worksheets/sheet1.xml']).not.toContain('state="frozen"');
+  });
+
+  it('should be available through createExporter as base64', () => {
+    const encoded = createExporter({ format: 'xlsx', headers: false }).export(data);
+    const sheet = unzip(Buffer.from(encoded, 'base64'))['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<row r="1"><c r="A1"><v>1</v></c>');
+    expect(sheet).not.toContain('state="frozen"');
+  });
+});